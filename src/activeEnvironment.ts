@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { writeFileAtomic, withFileLock } from './atomicWrite';
+import { getUserHome } from './userHome';
+
+/**
+ * Machine-wide record of the active environment, shared by all windows.
+ * mcp.json is global, so workspaceState alone cannot tell windows apart;
+ * every switch bumps the revision and the other windows follow it.
+ */
+
+export interface ActiveEnvironmentState {
+  envName: string;
+  revision: number;
+  switchedAt: string;
+  windowId: string;
+  previousEnvName?: string;
+}
+
+// Revision this window last wrote or synced to
+let lastSeenRevision: number | undefined;
+
+export function getActiveEnvironmentStatePath(): string {
+  const home = getUserHome();
+  return path.join(home, '.cursor', 'mcp-selector', 'active-environment.json');
+}
+
+export function getWindowId(): string {
+  return vscode.env.sessionId;
+}
+
+export function readActiveEnvironmentState(): ActiveEnvironmentState | undefined {
+  try {
+    const statePath = getActiveEnvironmentStatePath();
+    if (!fs.existsSync(statePath)) {
+      return undefined;
+    }
+
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+    return state && typeof state.envName === 'string' && typeof state.revision === 'number' ? state : undefined;
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not read active environment state: ${error}`);
+    return undefined;
+  }
+}
+
+export function writeActiveEnvironmentState(envName: string): ActiveEnvironmentState {
+  const statePath = getActiveEnvironmentStatePath();
+
+  // Bump the revision under the lock so two windows never write the same one
+  return withFileLock(statePath, () => {
+    const previous = readActiveEnvironmentState();
+    const state: ActiveEnvironmentState = {
+      envName,
+      revision: (previous?.revision ?? 0) + 1,
+      switchedAt: new Date().toISOString(),
+      windowId: getWindowId(),
+      // Re-applying the same environment keeps the last different one (for the lastUsed toggle)
+      previousEnvName: previous && previous.envName !== envName ? previous.envName : previous?.previousEnvName
+    };
+
+    writeFileAtomic(statePath, JSON.stringify(state, null, 2), { verifyJson: true });
+    lastSeenRevision = state.revision;
+    return state;
+  });
+}
+
+/**
+ * Return the shared state when another window switched since this window last
+ * synced, i.e. when switching now would silently override that window's choice
+ */
+export function findConflictingSwitch(): ActiveEnvironmentState | undefined {
+  const state = readActiveEnvironmentState();
+  if (!state || lastSeenRevision === undefined) {
+    return undefined;
+  }
+  return state.revision !== lastSeenRevision && state.windowId !== getWindowId() ? state : undefined;
+}
+
+/**
+ * Adopt a switch made in another window into this window's workspaceState.
+ * Returns the new environment name when it changed.
+ */
+export function syncWithActiveEnvironment(context: vscode.ExtensionContext, knownEnvironments: string[]): string | undefined {
+  const state = readActiveEnvironmentState();
+  if (!state || state.revision === lastSeenRevision) {
+    return undefined;
+  }
+
+  lastSeenRevision = state.revision;
+  if (!knownEnvironments.includes(state.envName) || context.workspaceState.get<string>('mcpCurrentEnv') === state.envName) {
+    return undefined;
+  }
+
+  context.workspaceState.update('mcpCurrentEnv', state.envName);
+  console.log(`[MCP Server Selector] Synced active environment '${state.envName}' (revision ${state.revision})`);
+  return state.envName;
+}
+
+/**
+ * Watch the shared state file (through its directory, as it may be replaced)
+ */
+export function watchActiveEnvironment(context: vscode.ExtensionContext, onChange: () => void): void {
+  const statePath = getActiveEnvironmentStatePath();
+  const dir = path.dirname(statePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  try {
+    const watcher = fs.watch(dir, (eventType, fileName) => {
+      if (fileName && fileName.toString() === path.basename(statePath)) {
+        onChange();
+      }
+    });
+
+    context.subscriptions.push({
+      dispose: () => watcher.close()
+    });
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not watch active environment state: ${error}`);
+  }
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Shared write layer for every file the selector produces.
+ *
+ * Writes go to a temp file in the same directory and are renamed over the
+ * target, so readers never observe a half-written file. An advisory
+ * `<file>.lock` serializes writers across windows, and JSON content is
+ * verified after the rename.
+ */
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 25;
+
+export interface AtomicWriteOptions {
+  verifyJson?: boolean;
+}
+
+export class AtomicWriteError extends Error {
+  constructor(message: string, public filePath: string) {
+    super(message);
+    this.name = 'AtomicWriteError';
+  }
+}
+
+// Locks held by this process; makes withFileLock re-entrant
+const heldLocks = new Set<string>();
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function getLockPath(filePath: string): string {
+  return `${path.resolve(filePath)}.lock`;
+}
+
+function removeStaleLock(lockPath: string): boolean {
+  try {
+    const ageMs = Date.now() - fs.statSync(lockPath).mtimeMs;
+    if (ageMs > LOCK_STALE_MS) {
+      fs.unlinkSync(lockPath);
+      console.warn(`[MCP Server Selector] Removed stale lock ${lockPath}`);
+      return true;
+    }
+  } catch {
+    // Lock disappeared in the meantime; the next attempt will take it
+    return true;
+  }
+  return false;
+}
+
+function acquireLock(lockPath: string): void {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() }));
+      fs.closeSync(fd);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (removeStaleLock(lockPath)) {
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new AtomicWriteError(`Timed out waiting for lock ${lockPath}`, lockPath);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Run fn while holding the advisory lock for filePath (e.g. for read-modify-write)
+ */
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = getLockPath(filePath);
+  if (heldLocks.has(lockPath)) {
+    return fn();
+  }
+
+  acquireLock(lockPath);
+  heldLocks.add(lockPath);
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(lockPath);
+    try {
+      fs.unlinkSync(lockPath);
+    } catch (error) {
+      console.warn(`[MCP Server Selector] Could not release lock ${lockPath}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Atomically replace filePath with content
+ */
+export function writeFileAtomic(filePath: string, content: string, options: AtomicWriteOptions = {}): void {
+  if (options.verifyJson) {
+    try {
+      JSON.parse(content);
+    } catch (error) {
+      throw new AtomicWriteError(`Refusing to write invalid JSON to ${filePath}: ${error}`, filePath);
+    }
+  }
+
+  withFileLock(filePath, () => {
+    const dir = path.dirname(filePath);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const tempPath = path.join(dir, `.${path.basename(filePath)}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`);
+    try {
+      const fd = fs.openSync(tempPath, 'w');
+      try {
+        fs.writeSync(fd, content, null, 'utf-8');
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+      throw new AtomicWriteError(`Failed to write ${filePath}: ${error}`, filePath);
+    }
+
+    if (options.verifyJson && fs.readFileSync(filePath, 'utf-8') !== content) {
+      throw new AtomicWriteError(`Verification failed after writing ${filePath}`, filePath);
+    }
+  });
+}
+
+/**
+ * Atomically remove filePath (no-op when it does not exist)
+ */
+export function removeFileLocked(filePath: string): void {
+  withFileLock(filePath, () => {
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  });
+}
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { ConfigObject, isPlainObject } from './configRenderer';
+import { LEGACY_TOKEN_TEMPLATE, templateSecretValues } from './interpolation';
+import { readTargetConfig } from './mcpTargets';
+import { switchToEnvironment, SwitchCancelledError } from './configManager';
+import { getCursorMcpPath, getCursorIdpUrlPath, getCurrentEnvironment, readAppliedToken, getConfigFilePath } from './environmentConfig';
+import { getAccessToken } from './credentialsSender';
+import { getSecretValues } from './secretStore';
+import { promptNewEnvironment, addEnvironmentConfig } from './environmentEditor';
+import { updateStatusBarEnvironment } from './statusBar';
+
+/**
+ * Turn a hand-tuned live mcp.json back into an environment file. Tokens the
+ * selector substituted are replaced with access_token_template again, and
+ * stored secret values with ${secret:name}.
+ */
+
+export interface TokenCandidate {
+  value: string;
+  // JSON paths of the string values that contain it, e.g. mcpServers.api.headers.Authorization
+  paths: string[];
+  // The token the selector wrote (certain), as opposed to a value that merely looks like one
+  known: boolean;
+}
+
+// crypto.randomUUID() output, the format the selector generates tokens in
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/gi;
+
+function walkStrings(value: unknown, jsonPath: string, visit: (text: string, jsonPath: string) => void): void {
+  if (typeof value === 'string') {
+    visit(value, jsonPath);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => walkStrings(item, `${jsonPath}[${index}]`, visit));
+  } else if (isPlainObject(value)) {
+    Object.keys(value).forEach(key => walkStrings(value[key], jsonPath ? `${jsonPath}.${key}` : key, visit));
+  }
+}
+
+/**
+ * Values in a config that are (or look like) access tokens: the known tokens
+ * wherever they occur, and any other UUID in the generated format
+ */
+export function findTokenCandidates(config: ConfigObject, knownTokens: string[]): TokenCandidate[] {
+  const candidates = new Map<string, TokenCandidate>();
+  const add = (value: string, jsonPath: string, known: boolean) => {
+    const candidate = candidates.get(value) ?? { value, paths: [], known };
+    if (!candidate.paths.includes(jsonPath)) {
+      candidate.paths.push(jsonPath);
+    }
+    candidates.set(value, candidate);
+  };
+
+  walkStrings(config, '', (text, jsonPath) => {
+    knownTokens.filter(token => token && text.includes(token)).forEach(token => add(token, jsonPath, true));
+    (text.match(UUID_PATTERN) || [])
+      .filter(match => !knownTokens.includes(match))
+      .forEach(match => add(match, jsonPath, false));
+  });
+
+  return Array.from(candidates.values());
+}
+
+/**
+ * Replace every occurrence of the given token values with access_token_template
+ */
+export function templateTokenValues(config: ConfigObject, tokens: string[]): ConfigObject {
+  const replace = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return tokens.reduce((text, token) => token ? text.split(token).join(LEGACY_TOKEN_TEMPLATE) : text, value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(replace);
+    }
+    if (isPlainObject(value)) {
+      const result: ConfigObject = {};
+      Object.keys(value).forEach(key => {
+        result[key] = replace(value[key]);
+      });
+      return result;
+    }
+    return value;
+  };
+  return replace(config) as ConfigObject;
+}
+
+/**
+ * Tokens the selector put into mcp.json: the one extracted for the active
+ * environment and the one stored for token refresh
+ */
+async function getKnownTokens(context: vscode.ExtensionContext): Promise<string[]> {
+  const tokens = [readAppliedToken(getCurrentEnvironment(context)), await getAccessToken(context)];
+  return Array.from(new Set(tokens.filter((token): token is string => !!token)));
+}
+
+function readCurrentIdpUrl(): string | undefined {
+  const idpUrlPath = getCursorIdpUrlPath();
+  return fs.existsSync(idpUrlPath) ? fs.readFileSync(idpUrlPath, 'utf-8').trim() || undefined : undefined;
+}
+
+/**
+ * Let the user confirm which values to turn back into templates. Known tokens
+ * are preselected; other UUIDs may be real IDs and are offered unselected.
+ */
+async function pickTokensToTemplate(candidates: TokenCandidate[]): Promise<string[] | undefined> {
+  if (candidates.length === 0) {
+    return [];
+  }
+  if (candidates.every(candidate => candidate.known)) {
+    return candidates.map(candidate => candidate.value);
+  }
+
+  const picks = await vscode.window.showQuickPick(
+    candidates.map(candidate => ({
+      label: `${candidate.value.substring(0, 8)}…`,
+      description: candidate.known ? 'token written by the selector' : 'looks like a token',
+      detail: candidate.paths.join(', '),
+      picked: candidate.known,
+      value: candidate.value
+    })),
+    { canPickMany: true, placeHolder: `Replace which values with ${LEGACY_TOKEN_TEMPLATE}?` }
+  );
+  return picks?.map(pick => pick.value);
+}
+
+/**
+ * Command handler: save the live mcp.json as a new environment
+ */
+export async function saveCurrentConfigAsEnvironment(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const mcpPath = getCursorMcpPath();
+    const live = readTargetConfig(mcpPath);
+    if (!live) {
+      vscode.window.showErrorMessage(`${mcpPath} is missing or not a JSON object`);
+      return;
+    }
+
+    const tokens = await pickTokensToTemplate(findTokenCandidates(live, await getKnownTokens(context)));
+    if (!tokens) {
+      return;
+    }
+
+    const newEnv = await promptNewEnvironment({ idpUrl: readCurrentIdpUrl() });
+    if (!newEnv) {
+      return;
+    }
+
+    addEnvironmentConfig({ ...newEnv, config: templateSecretValues(templateTokenValues(live, tokens), getSecretValues()) });
+    updateStatusBarEnvironment(context);
+    console.log(`[MCP Server Selector] Saved ${mcpPath} as environment '${newEnv.displayName}' (${tokens.length} token value(s) templated)`);
+
+    const action = await vscode.window.showInformationMessage(
+      `Saved the current MCP config as ${newEnv.displayName}${tokens.length > 0 ? ` with ${LEGACY_TOKEN_TEMPLATE} in place of the token` : ''}`,
+      `Switch to ${newEnv.displayName}`,
+      'Open Config'
+    );
+    if (action === 'Open Config') {
+      await vscode.window.showTextDocument(vscode.Uri.file(getConfigFilePath(newEnv.displayName)));
+    } else if (action === `Switch to ${newEnv.displayName}`) {
+      await switchToEnvironment(context, newEnv.displayName);
+      updateStatusBarEnvironment(context);
+    }
+  } catch (error) {
+    if (error instanceof SwitchCancelledError) {
+      vscode.window.showInformationMessage(error.message);
+      return;
+    }
+    console.error('[MCP Selector] Error in saveCurrentConfigAsEnvironment:', error);
+    vscode.window.showErrorMessage(`Error saving the current config as an environment: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -1,13 +1,37 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import * as vscode from 'vscode';
 import { loadEnvironmentConfiguration } from './environmentParser';
-import { sendCredentials, generateUUID } from './credentialsSender';
+import {
+  getConfigFilePath,
+  getIdpUrlFilePath,
+  getCursorIdpUrlPath,
+  renderEnvironmentConfig
+} from './environmentConfig';
+import { sendCredentials, generateUUID, getAccessToken, updateTokenValidityDisplay } from './credentialsSender';
+import { ConfigRenderError } from './configRenderer';
+import { InterpolationError } from './interpolation';
+import { getConfiguredTargets, writeConfigToTargets } from './mcpTargets';
+import { recordSwitchSnapshot } from './switchHistory';
+import { findConflictingSwitch, writeActiveEnvironmentState } from './activeEnvironment';
+import { writeFileAtomic } from './atomicWrite';
+import { confirmGuardedSwitch } from './switchGuard';
+import { runHealthCheck, isHealthCheckAfterSwitchEnabled } from './healthCheck';
+import { getUserHome } from './userHome';
 
 // Dynamic environment name - no longer hard-coded
 export type MCPEnvironment = string;
 
+/**
+ * Thrown when a switch is abandoned on purpose (e.g. the user declined a prompt)
+ */
+export class SwitchCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SwitchCancelledError';
+  }
+}
+
 const DEFAULT_MCP_CONTENT = `{
   "mcpServers": {}
 }`;
@@ -18,7 +42,7 @@ const DEFAULT_MCP_CONTENT = `{
  */
 export function addCursorRulesToWorkspace(): void {
   try {
-    const home = os.homedir();
+    const home = getUserHome();
     const cursorRulesPath = path.join(home, '.cursor', 'rules');
     
     // Ensure the directory exists
@@ -54,55 +78,14 @@ export function addCursorRulesToWorkspace(): void {
   }
 }
 
-// Dynamic environment functions
-export function getConfigFileBase(displayName: string): string | undefined {
-  const envConfig = loadEnvironmentConfiguration();
-  const env = envConfig.environments.find(e => e.displayName === displayName);
-  if (!env) {return undefined;}
-  
-  // Remove .json extension if present to get the base name
-  return env.configFileName.replace('.json', '');
-}
-
-export function getAllEnvironments(): string[] {
-  return loadEnvironmentConfiguration().environments.map(e => e.displayName);
-}
-
-export function getConfigFilePath(displayName: string): string {
-  const home = os.homedir();
-  const mcpDir = path.join(home, '.cursor', 'mcp-selector', 'envs');
-  const fileBase = getConfigFileBase(displayName);
-  
-  if (!fileBase) {
-    throw new Error(`Unknown environment: ${displayName}`);
-  }
-  
-  const fileName = fileBase + '.json';
-  return path.join(mcpDir, fileName);
-}
-
-export function getIdpUrlFilePath(displayName: string): string {
-  const home = os.homedir();
-  const mcpDir = path.join(home, '.cursor', 'mcp-selector', 'envs');
-  const fileBase = getConfigFileBase(displayName);
-  
-  if (!fileBase) {
-    throw new Error(`Unknown environment: ${displayName}`);
-  }
-  
-  const idpUrlFileName = `${fileBase}-idp-url.txt`;
-  
-  return path.join(mcpDir, idpUrlFileName);
-}
-
-export function getCursorMcpPath(): string {
-  const home = os.homedir();
-  return path.join(home, '.cursor', 'mcp.json');
-}
-
-export function getCursorIdpUrlPath(): string {
-  const home = os.homedir();
-  return path.join(home, '.cursor', 'mcp-selector', 'mcp-idp-url.txt');
+/**
+ * Every file an environment switch writes: the configured MCP client configs and the IDP URL file
+ */
+export function getSwitchTargetFiles(): string[] {
+  const targetPaths = getConfiguredTargets()
+    .map(target => target.getConfigPath())
+    .filter((targetPath): targetPath is string => !!targetPath);
+  return [...targetPaths, getCursorIdpUrlPath()];
 }
 
 export function ensureConfigFile(displayName: string) {
@@ -131,65 +114,14 @@ export function ensureAllConfigFiles(): void {
 }
 
 /**
- * Get the current environment from the extension context
- */
-export function getCurrentEnvironment(context: vscode.ExtensionContext): string {
-  const envConfig = loadEnvironmentConfiguration();
-  const defaultEnv = envConfig.environments.length > 0 ? envConfig.environments[0].displayName : 'Local';
-  return context.workspaceState.get<string>('mcpCurrentEnv') || defaultEnv;
-}
-
-/**
- * Replace access_token_template with a new UUID by reading from source config
- * and ensuring the same UUID is used consistently
+ * Render the environment config with the given access token and write it to
+ * every configured MCP client (Cursor's mcp.json by default)
  */
-export function replaceTokenTemplateFromSource(context: vscode.ExtensionContext): { success: boolean; uuid?: string } {
-  try {
-    // Get current environment
-    const currentEnv = getCurrentEnvironment(context);
-    const sourceFilePath = getConfigFilePath(currentEnv);
-    const targetFilePath = getCursorMcpPath();
-    
-    if (!fs.existsSync(sourceFilePath)) {
-      console.error(`[MCP Server Selector] Source config file does not exist: ${sourceFilePath}`);
-      return { success: false };
-    }
-    
-    // Read the source content
-    const sourceContent = fs.readFileSync(sourceFilePath, 'utf-8');
-    
-    // Check if the template string exists in source
-    if (!sourceContent.includes('access_token_template')) {
-      console.log(`[MCP Server Selector] No access_token_template found in source config for ${currentEnv}`);
-      return { success: true }; // Not an error, just nothing to replace
-    }
-    
-    // Generate new UUID and replace all occurrences
-    const newUuid = generateUUID();
-    const updatedContent = sourceContent.replace(/access_token_template/g, newUuid);
-    
-    // Ensure target directory exists
-    const targetDir = path.dirname(targetFilePath);
-    if (!fs.existsSync(targetDir)) {
-      fs.mkdirSync(targetDir, { recursive: true });
-    }
-    
-    // Write the updated content to mcp.json
-    fs.writeFileSync(targetFilePath, updatedContent, 'utf-8');
-    
-    console.log(`[MCP Server Selector] Replaced access_token_template with new UUID: ${newUuid} for environment: ${currentEnv}`);
-    return { success: true, uuid: newUuid };
-  } catch (error) {
-    console.error(`[MCP Server Selector] Failed to replace token template from source: ${error}`);
-    return { success: false };
-  }
-}
-
-export function copyConfigToCursor(displayName: string): boolean {
+export function copyConfigToCursor(displayName: string, token: string): boolean {
   const sourceFilePath = getConfigFilePath(displayName);
-  const targetFilePath = getCursorMcpPath();
+  const targets = getConfiguredTargets();
   
-  console.log(`[MCP Server Selector] Copying config: ${sourceFilePath} -> ${targetFilePath}`);
+  console.log(`[MCP Server Selector] Rendering config: ${sourceFilePath} -> ${targets.map(t => t.label).join(', ')}`);
   
   if (!fs.existsSync(sourceFilePath)) {
     console.error(`[MCP Server Selector] Source config file does not exist: ${sourceFilePath}`);
@@ -197,23 +129,25 @@ export function copyConfigToCursor(displayName: string): boolean {
   }
   
   try {
-    // Ensure target directory exists
-    const targetDir = path.dirname(targetFilePath);
-    if (!fs.existsSync(targetDir)) {
-      console.log(`[MCP Server Selector] Creating target directory: ${targetDir}`);
-      fs.mkdirSync(targetDir, { recursive: true });
-    }
-    
-    // For initial copy, we'll handle token replacement in the switchToEnvironment function
-    // to ensure we have access to the VS Code context
-    fs.copyFileSync(sourceFilePath, targetFilePath);
-    console.log(`[MCP Server Selector] Successfully copied config to: ${targetFilePath}`);
+    const results = writeConfigToTargets(renderEnvironmentConfig(displayName, token), targets);
     
-    // Note: Token replacement will be handled separately with proper context
+    const failed = results.filter(result => !result.success);
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(`Failed to write MCP config for: ${failed.map(result => result.filePath).join(', ')}`);
+      return false;
+    }
     
+    results.filter(result => result.collisions && result.collisions.length > 0).forEach(result => {
+      vscode.window.showWarningMessage(
+        `Servers in ${result.filePath} that you added by hand have the same name as servers in '${displayName}' and were kept: ${result.collisions!.join(', ')}. Rename one of them to use both.`
+      );
+    });
     return true;
   } catch (error) {
-    console.error(`[MCP Server Selector] Failed to copy config file: ${error}`);
+    console.error(`[MCP Server Selector] Failed to render config file: ${error}`);
+    if (error instanceof InterpolationError || error instanceof ConfigRenderError) {
+      vscode.window.showErrorMessage(`MCP config for '${displayName}' was not applied: ${error.message}`);
+    }
     return false;
   }
 }
@@ -231,15 +165,8 @@ export function copyIdpUrlToCursor(displayName: string): boolean {
   }
   
   try {
-    // Ensure target directory exists
-    const targetDir = path.dirname(targetFilePath);
-    if (!fs.existsSync(targetDir)) {
-      console.log(`[MCP Server Selector] Creating target directory for IDP URL: ${targetDir}`);
-      fs.mkdirSync(targetDir, { recursive: true });
-    }
-    
-    // Copy the file
-    fs.copyFileSync(sourceFilePath, targetFilePath);
+    // Copy the file (the write layer creates the target directory)
+    writeFileAtomic(targetFilePath, fs.readFileSync(sourceFilePath, 'utf-8'));
     console.log(`[MCP Server Selector] Successfully copied IDP URL to: ${targetFilePath}`);
     return true;
   } catch (error) {
@@ -249,7 +176,40 @@ export function copyIdpUrlToCursor(displayName: string): boolean {
 }
 
 export async function switchToEnvironment(context: vscode.ExtensionContext, displayName: string): Promise<boolean> {
-  const configCopied = copyConfigToCursor(displayName);
+  // Another window may have switched since this window last synced; don't override it silently
+  const conflict = findConflictingSwitch();
+  if (conflict && conflict.envName !== displayName) {
+    const choice = await vscode.window.showWarningMessage(
+      `Another window switched MCP to '${conflict.envName}' at ${new Date(conflict.switchedAt).toLocaleTimeString()}. Switch all windows to '${displayName}' instead?`,
+      { modal: true },
+      `Switch to ${displayName}`
+    );
+    if (choice !== `Switch to ${displayName}`) {
+      throw new SwitchCancelledError(`Kept '${conflict.envName}' selected in another window`);
+    }
+  }
+  
+  // Dangerous environments need confirmation; re-applying the active one does not
+  const previousEnv = context.workspaceState.get<string>('mcpCurrentEnv');
+  if (previousEnv !== displayName && !(await confirmGuardedSwitch(previousEnv, displayName))) {
+    throw new SwitchCancelledError(`Stayed on '${previousEnv ?? 'the current environment'}', did not switch to '${displayName}'`);
+  }
+  
+  // Back up the files we are about to overwrite (re-applying the same environment is not recorded)
+  if (previousEnv !== displayName) {
+    try {
+      recordSwitchSnapshot(previousEnv, displayName, getSwitchTargetFiles());
+    } catch (error) {
+      console.error(`[MCP Server Selector] Failed to record switch history: ${error}`);
+    }
+  }
+  
+  // Never leave a bare token placeholder in mcp.json. With an IDP URL the
+  // previous token stays until the IDP has accepted a new one; a fresh one is
+  // only used when there is none yet.
+  const hasIdpUrl = fs.existsSync(getIdpUrlFilePath(displayName));
+  const token = (hasIdpUrl ? await getAccessToken(context) : undefined) ?? generateUUID();
+  const configCopied = copyConfigToCursor(displayName, token);
   const idpUrlCopied = copyIdpUrlToCursor(displayName);
   
   // Config file is required, IDP URL file is optional
@@ -260,27 +220,34 @@ export async function switchToEnvironment(context: vscode.ExtensionContext, disp
   // Update workspace state to reflect new environment
   context.workspaceState.update('mcpCurrentEnv', displayName);
   
-  // Replace token templates with fresh UUIDs after copying
+  // Broadcast the switch to the other windows
   if (success) {
-    const tokenResult = replaceTokenTemplateFromSource(context);
-    if (tokenResult.success) {
-      console.log(`[MCP Server Selector] Token templates processed for environment switch to ${displayName}`);
-    } else {
-      console.warn(`[MCP Server Selector] Token replacement failed during environment switch`);
+    try {
+      writeActiveEnvironmentState(displayName);
+    } catch (error) {
+      console.error(`[MCP Server Selector] Failed to record active environment: ${error}`);
     }
   }
   
   // Add workspace folders when environment changes
   addCursorRulesToWorkspace();
   
-  // If config was copied and IDP URL was also copied successfully, send credentials immediately
-  if (success && idpUrlCopied) {
-    try {
-      await sendCredentials(context);
-      console.log(`[MCP Server Selector] Credentials sent immediately after switching to ${displayName}`);
-    } catch (error) {
-      // Don't fail the environment switch if credentials sending fails
-      console.log(`[MCP Server Selector] Failed to send credentials after environment switch: ${error}`);
+  // Register a new token with the IDP in the background; its retries must not hold up the switch
+  let tokenDelivered = Promise.resolve();
+  if (success && hasIdpUrl && idpUrlCopied) {
+    tokenDelivered = sendCredentials(context).catch(error => {
+      console.error(`[MCP Server Selector] Credentials delivery after switching to ${displayName} failed: ${error}`);
+    });
+  } else {
+    updateTokenValidityDisplay(context);
+  }
+  
+  // Check the new servers in the background, with the token the IDP registered; the switch itself is done
+  if (success) {
+    if (isHealthCheckAfterSwitchEnabled()) {
+      tokenDelivered.then(() => runHealthCheck(context)).catch(error => {
+        console.error(`[MCP Server Selector] Health check after switching to ${displayName} failed: ${error}`);
+      });
     }
   }
   
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLocalEnvsDir, getSharedSourceDir } from './environmentParser';
+
+/**
+ * Layered environment configs
+ *
+ * An environment file may declare:
+ *   "extends": "base.json"              - base file, resolved relative to the env file
+ *                                         (local files fall back to the shared source's envs/)
+ *   "mixins": ["auth.json", "tools"]    - applied in order on top of the base
+ *
+ * The file itself is applied last. Objects are merged key by key, everything
+ * else replaces the inherited value. Merge directives:
+ *   null                    - delete the inherited key
+ *   { "$replace": value }   - use value as-is, without merging into the inherited value
+ *   { "$append": [...] }    - append to the inherited array (e.g. extra args)
+ */
+
+export type ConfigObject = Record<string, any>;
+
+const LAYER_KEYS = ['extends', 'mixins'];
+
+export class ConfigRenderError extends Error {
+  constructor(message: string, public filePath: string) {
+    super(message);
+    this.name = 'ConfigRenderError';
+  }
+}
+
+export function isPlainObject(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function resolveLayerPath(fromFile: string, reference: string): string {
+  const fileName = reference.endsWith('.json') ? reference : reference + '.json';
+  const layerPath = path.resolve(path.dirname(fromFile), fileName);
+
+  // A local override may build on a file that only the shared source has
+  const sharedDir = getSharedSourceDir();
+  if (!fs.existsSync(layerPath) && sharedDir && path.dirname(fromFile) === path.resolve(getLocalEnvsDir())) {
+    const sharedPath = path.resolve(sharedDir, 'envs', fileName);
+    if (fs.existsSync(sharedPath)) {
+      return sharedPath;
+    }
+  }
+  return layerPath;
+}
+
+/**
+ * Merge an overlay into a base value following the directive rules above
+ */
+export function mergeConfigValues(base: unknown, overlay: unknown): unknown {
+  if (isPlainObject(overlay)) {
+    if ('$replace' in overlay) {
+      return overlay.$replace;
+    }
+
+    if ('$append' in overlay) {
+      const inherited = Array.isArray(base) ? base : [];
+      const appended = Array.isArray(overlay.$append) ? overlay.$append : [overlay.$append];
+      return [...inherited, ...appended];
+    }
+
+    const result: ConfigObject = isPlainObject(base) ? { ...base } : {};
+    Object.keys(overlay).forEach(key => {
+      if (overlay[key] === null) {
+        delete result[key];
+      } else {
+        result[key] = mergeConfigValues(result[key], overlay[key]);
+      }
+    });
+    return result;
+  }
+
+  return overlay;
+}
+
+function readConfigFile(filePath: string): ConfigObject {
+  if (!fs.existsSync(filePath)) {
+    throw new ConfigRenderError(`Config file does not exist: ${filePath}`, filePath);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigRenderError(`Config file is not valid JSON: ${filePath} (${error})`, filePath);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new ConfigRenderError(`Config file must contain a JSON object: ${filePath}`, filePath);
+  }
+
+  return parsed;
+}
+
+function renderLayered(filePath: string, chain: string[]): ConfigObject {
+  if (chain.includes(filePath)) {
+    throw new ConfigRenderError(`Circular config inheritance: ${[...chain, filePath].join(' -> ')}`, filePath);
+  }
+
+  const config = readConfigFile(filePath);
+  const nextChain = [...chain, filePath];
+
+  const layers: string[] = [];
+  if (config.extends !== undefined) {
+    if (typeof config.extends !== 'string') {
+      throw new ConfigRenderError(`'extends' must be a file name in ${filePath}`, filePath);
+    }
+    layers.push(config.extends);
+  }
+  if (config.mixins !== undefined) {
+    if (!Array.isArray(config.mixins) || config.mixins.some((mixin: unknown) => typeof mixin !== 'string')) {
+      throw new ConfigRenderError(`'mixins' must be an array of file names in ${filePath}`, filePath);
+    }
+    layers.push(...config.mixins);
+  }
+
+  let result: ConfigObject = {};
+  layers.forEach(layer => {
+    result = mergeConfigValues(result, renderLayered(resolveLayerPath(filePath, layer), nextChain)) as ConfigObject;
+  });
+
+  const ownValues: ConfigObject = { ...config };
+  LAYER_KEYS.forEach(key => delete ownValues[key]);
+
+  return mergeConfigValues(result, ownValues) as ConfigObject;
+}
+
+/**
+ * Absolute paths of the files a config directly extends or mixes in, resolved
+ * like rendering does. Empty when the file is missing or not valid JSON.
+ */
+export function getLayerPaths(filePath: string): string[] {
+  let config: ConfigObject;
+  try {
+    config = readConfigFile(path.resolve(filePath));
+  } catch {
+    return [];
+  }
+  const layers = [
+    ...(typeof config.extends === 'string' ? [config.extends] : []),
+    ...(Array.isArray(config.mixins) ? config.mixins.filter((mixin: unknown) => typeof mixin === 'string') : [])
+  ];
+  return layers.map(layer => resolveLayerPath(path.resolve(filePath), layer));
+}
+
+/**
+ * Render an environment config file with all of its base and mixin layers applied
+ */
+export function renderConfigFile(filePath: string): ConfigObject {
+  return renderLayered(path.resolve(filePath), []);
+}
+
+/**
+ * Serialize a rendered config the way it is written to mcp.json
+ */
+export function serializeConfig(config: ConfigObject): string {
+  return JSON.stringify(config, null, 2) + '\n';
+}
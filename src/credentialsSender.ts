@@ -1,15 +1,84 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import * as https from 'https';
 import * as crypto from 'crypto';
 import * as vscode from 'vscode';
+import { storeAccessToken, readAccessToken } from './secretStore';
+import { readTokenState, recordTokenIssued, recordTokenError, claimTokenRefresh, getTokenRefreshMarginMs, formatTokenValidity } from './tokenLifecycle';
+import { setStatusBarToken, setStatusBarCredentialsError } from './statusBar';
+import { postToIdp, IdpTransportConfigError, isCertificateError } from './idpTransport';
+import { InterpolationError } from './interpolation';
+import { getUserHome } from './userHome';
+import { getCurrentEnvironment, getIdpTlsSettings, replaceTokenTemplateFromSource } from './environmentConfig';
 
 const MCP_IDP_URL_FILENAME = 'mcp-idp-url.txt';
-const ACCESS_TOKEN_FILENAME = 'access-token.crd';
-const SEND_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const TOKEN_CHECK_INTERVAL_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+// A much longer gap between checks means the machine was asleep
+const SLEEP_GAP_MS = 3 * TOKEN_CHECK_INTERVAL_MS;
+
+// Attempts per delivery, and the backoff between them
+const MAX_DELIVERY_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+// Backoff between timer-driven refreshes after a delivery failed
+const REFRESH_RETRY_BASE_DELAY_MS = TOKEN_CHECK_INTERVAL_MS;
+const REFRESH_RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
 
 let credentialsSenderInterval: NodeJS.Timeout | undefined;
+let lastTokenCheckAt: number | undefined;
+// Deliveries running in this window (a switch and the timer can overlap)
+let deliveriesInProgress = 0;
+let failureStreak = 0;
+let nextRefreshAttemptAt = 0;
+let credentialsLog: vscode.OutputChannel | undefined;
+
+/**
+ * Thrown when the IDP URL does not accept the credentials. Retryable errors
+ * (network, timeouts, 408/425/429 and 5xx) may succeed on a later attempt.
+ */
+export class CredentialsDeliveryError extends Error {
+  constructor(message: string, public retryable: boolean, public statusCode?: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'CredentialsDeliveryError';
+  }
+}
+
+const RETRYABLE_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+export function isRetryableStatus(statusCode: number): boolean {
+  return RETRYABLE_STATUS_CODES.includes(statusCode) || statusCode > 504;
+}
+
+/**
+ * Exponential backoff with jitter: half the capped delay is fixed, the other
+ * half random, so windows that failed together do not retry together
+ */
+export function computeBackoffDelay(attempt: number, baseMs: number, maxMs: number, random: () => number = Math.random): number {
+  const capped = Math.min(maxMs, baseMs * Math.pow(2, attempt));
+  return Math.round(capped / 2 + random() * capped / 2);
+}
+
+/**
+ * Retry-After in seconds or as an HTTP date
+ */
+function parseRetryAfter(header: string | string[] | undefined): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  const ms = isNaN(seconds) ? Date.parse(value) - Date.now() : seconds * 1000;
+  return isNaN(ms) ? undefined : Math.max(0, ms);
+}
+
+function logCredentials(message: string): void {
+  console.log(`[MCP Server Selector] ${message}`);
+  if (!credentialsLog) {
+    credentialsLog = vscode.window.createOutputChannel('MCP Server Selector');
+  }
+  credentialsLog.appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+}
 
 /**
  * Generate a new UUID token
@@ -35,55 +104,30 @@ export function getSystemUserInfo(): object {
  * Get the path to the mcp-idp-url.txt file
  */
 export function getMcpIdpUrlFilePath(): string {
-  const home = os.homedir();
+  const home = getUserHome();
   const mcpDir = path.join(home, '.cursor', 'mcp-selector');
   return path.join(mcpDir, MCP_IDP_URL_FILENAME);
 }
 
 /**
- * Get the path to the access-token.crd file
- */
-export function getAccessTokenFilePath(): string {
-  const home = os.homedir();
-  const mcpDir = path.join(home, '.vscode', 'mcp-selector');
-  return path.join(mcpDir, ACCESS_TOKEN_FILENAME);
-}
-
-/**
- * Save UUID token to access-token.crd file
+ * Save the UUID token in SecretStorage
  */
 export async function saveAccessToken(context: vscode.ExtensionContext, uuid: string): Promise<void> {
   try {
-    const filePath = getAccessTokenFilePath();
-    
-    // Ensure the directory exists
-    const dir = path.dirname(filePath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    
-    // Write the token to the file
-    fs.writeFileSync(filePath, uuid, 'utf-8');
+    await storeAccessToken(context, uuid);
   } catch (error) {
-    throw new Error(`Failed to save access token to file: ${error}`);
+    throw new Error(`Failed to save access token to secret storage: ${error}`);
   }
 }
 
 /**
- * Get UUID token from access-token.crd file
+ * Get the UUID token from SecretStorage
  */
 export async function getAccessToken(context: vscode.ExtensionContext): Promise<string | undefined> {
   try {
-    const filePath = getAccessTokenFilePath();
-    
-    if (!fs.existsSync(filePath)) {
-      return undefined;
-    }
-    
-    const token = fs.readFileSync(filePath, 'utf-8').trim();
-    return token || undefined;
+    return await readAccessToken(context);
   } catch (error) {
-    console.error(`Failed to get access token from file: ${error}`);
+    console.error(`Failed to get access token from secret storage: ${error}`);
     return undefined;
   }
 }
@@ -119,66 +163,113 @@ export function readMcpIdpUrl(): Promise<string> {
 }
 
 /**
- * Send data to the MCP server URL via POST request
+ * Send data to the MCP server URL via POST request, using the active
+ * environment's TLS settings and the proxy from the environment variables
  */
-export function sendCredentialsToMcpServer(context: vscode.ExtensionContext, mcpIdpUrl: string, userInfo: object, uuid: string): Promise<void> {
-  return new Promise(async (resolve, reject) => {
-    // Note: UUID tokens are now managed directly in mcp.json file
-    // via the replaceTokenTemplateFromSource function, not saved separately
-    // The UUID parameter should match what was just placed in mcp.json
-    
-    // Create JSON payload with user info and UUID token
-    const payload = {
-      token: uuid,
-      userInfo: userInfo,
-      timestamp: new Date().toISOString()
-    };
-    
-    const postData = JSON.stringify(payload);
-    const url = new URL(mcpIdpUrl);
-    
-    const options = {
-      hostname: url.hostname,
-      port: 443,
-      path: url.pathname + url.search,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(postData),
-        'User-Agent': 'MCP-Server-Selector/2.0.0'
+export async function sendCredentialsToMcpServer(context: vscode.ExtensionContext, mcpIdpUrl: string, userInfo: object, uuid: string): Promise<void> {
+  // Note: the UUID is only written into mcp.json (via replaceTokenTemplateFromSource)
+  // after this request has succeeded
+  
+  // Create JSON payload with user info and UUID token
+  const payload = {
+    token: uuid,
+    userInfo: userInfo,
+    timestamp: new Date().toISOString()
+  };
+  
+  const postData = JSON.stringify(payload);
+  let url: URL;
+  try {
+    url = new URL(mcpIdpUrl);
+  } catch {
+    throw new CredentialsDeliveryError(`Invalid IDP URL '${mcpIdpUrl}'`, false);
+  }
+  
+  let res;
+  try {
+    res = await postToIdp(url, postData, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'MCP-Server-Selector/2.0.0'
+    }, getIdpTlsSettings(getCurrentEnvironment(context)), REQUEST_TIMEOUT_MS);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof IdpTransportConfigError || error instanceof InterpolationError) {
+      throw new CredentialsDeliveryError(message, false);
+    }
+    if (isCertificateError(error)) {
+      throw new CredentialsDeliveryError(`Certificate error for ${mcpIdpUrl}: ${message}. Set idpTls.ca for the environment if the IDP uses a private CA`, false);
+    }
+    throw new CredentialsDeliveryError(`Request error for ${mcpIdpUrl}: ${message}`, true);
+  }
+  
+  if (res.statusCode >= 200 && res.statusCode < 300) {
+    console.log(`[MCP Server Selector] User credentials sent successfully to ${mcpIdpUrl}. Status: ${res.statusCode}, User: ${(userInfo as any).username}`);
+    return;
+  }
+  throw new CredentialsDeliveryError(
+    `HTTP request failed for ${mcpIdpUrl} with status ${res.statusCode}: ${res.body}`,
+    isRetryableStatus(res.statusCode),
+    res.statusCode,
+    parseRetryAfter(res.headers['retry-after'])
+  );
+}
+
+/**
+ * Send the credentials, retrying retryable failures with backoff. A
+ * Retry-After from the server is honoured up to the maximum delay.
+ */
+export async function deliverCredentials(
+  context: vscode.ExtensionContext,
+  mcpIdpUrl: string,
+  userInfo: object,
+  uuid: string,
+  send: typeof sendCredentialsToMcpServer = sendCredentialsToMcpServer,
+  baseDelayMs: number = RETRY_BASE_DELAY_MS
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await send(context, mcpIdpUrl, userInfo, uuid);
+      return;
+    } catch (error) {
+      const retryable = error instanceof CredentialsDeliveryError && error.retryable;
+      if (!retryable || attempt >= MAX_DELIVERY_ATTEMPTS) {
+        logCredentials(`Credentials delivery to ${mcpIdpUrl} failed after ${attempt} attempt(s)${retryable ? '' : ' (not retryable)'}: ${error instanceof Error ? error.message : error}`);
+        throw error;
       }
-    };
-    
-    const req = https.request(options, (res) => {
-      let responseData = '';
-      
-      res.on('data', (chunk) => {
-        responseData += chunk;
-      });
-      
-      res.on('end', () => {
-        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-          console.log(`[MCP Server Selector] User credentials sent successfully to ${mcpIdpUrl}. Status: ${res.statusCode}, Token: ${uuid}, User: ${(userInfo as any).username}`);
-          resolve();
-        } else {
-          reject(new Error(`HTTP request failed for ${mcpIdpUrl} with status ${res.statusCode}: ${responseData}`));
-        }
-      });
-    });
-    
-    req.on('error', (err) => {
-      reject(new Error(`Request error for ${mcpIdpUrl}: ${err.message}`));
-    });
-    
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error(`Request timeout for ${mcpIdpUrl}`));
-    });
-    
-    req.setTimeout(30000); // 30 second timeout
-    req.write(postData);
-    req.end();
-  });
+      const backoff = computeBackoffDelay(attempt - 1, baseDelayMs, RETRY_MAX_DELAY_MS);
+      const delay = Math.min(RETRY_MAX_DELAY_MS, Math.max(backoff, error.retryAfterMs ?? 0));
+      logCredentials(`Attempt ${attempt} to deliver credentials to ${mcpIdpUrl} failed: ${error.message}. Retrying in ${Math.round(delay / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Issue a new access token: send it with the user info to the IDP URL and,
+ * once the IDP has accepted it, write it into mcp.json and record its
+ * lifetime. Returns the token, or undefined when no IDP URL is configured.
+ * Throws when the IDP rejects it or mcp.json cannot be written; mcp.json
+ * then keeps the token the last switch or refresh rendered into it.
+ */
+export async function issueAccessToken(context: vscode.ExtensionContext): Promise<string | undefined> {
+  // Without an IDP URL, the token only needs to be consistent within mcp.json
+  if (!mcpIdpUrlFileExists()) {
+    replaceTokenTemplateFromSource(context, generateUUID());
+    return undefined;
+  }
+
+  const mcpIdpUrl = await readMcpIdpUrl();
+  const userInfo = getSystemUserInfo();
+  const uuidToSend = generateUUID();
+  
+  await deliverCredentials(context, mcpIdpUrl, userInfo, uuidToSend);
+  if (!replaceTokenTemplateFromSource(context, uuidToSend).success) {
+    throw new Error('The IDP registered a new token, but it could not be written to the MCP config');
+  }
+  await saveAccessToken(context, uuidToSend);
+  recordTokenIssued(getCurrentEnvironment(context));
+  console.log(`[MCP Server Selector] Issued access token ${uuidToSend.substring(0, 8)}… at ${new Date().toLocaleTimeString()}`);
+  return uuidToSend;
 }
 
 /**
@@ -186,34 +277,122 @@ export function sendCredentialsToMcpServer(context: vscode.ExtensionContext, mcp
  * This function gets system user info and sends it to the server
  */
 export async function sendCredentials(context: vscode.ExtensionContext): Promise<void> {
+  deliveriesInProgress++;
   try {
-    // Import the token replacement function from configManager to avoid circular imports
-    const { replaceTokenTemplateFromSource } = await import('./configManager.js');
-    
-    // First, replace any token templates with new UUIDs and get the generated UUID
-    const tokenResult = replaceTokenTemplateFromSource(context);
-    
-    // Check if the IDP URL file exists
-    if (!mcpIdpUrlFileExists()) {
-      // Silently skip if file is missing - don't log anything
-      return;
+    await issueAccessToken(context);
+    clearCredentialsFailure(context);
+  } catch (error) {
+    // Keep the timer running; the failure is shown in the status bar and once per failure streak as a notification
+    recordTokenError(error);
+    reportCredentialsFailure(context, error);
+  } finally {
+    deliveriesInProgress--;
+    updateTokenValidityDisplay(context);
+  }
+}
+
+function clearCredentialsFailure(context: vscode.ExtensionContext): void {
+  if (failureStreak > 0) {
+    logCredentials('Credentials delivered again');
+  }
+  failureStreak = 0;
+  nextRefreshAttemptAt = 0;
+  setStatusBarCredentialsError(context, undefined);
+}
+
+/**
+ * Show a failed delivery: the status bar error state always, the
+ * notification only for the first failure of a streak. The timer backs off
+ * before its next attempt.
+ */
+function reportCredentialsFailure(context: vscode.ExtensionContext, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  nextRefreshAttemptAt = Date.now() + computeBackoffDelay(failureStreak, REFRESH_RETRY_BASE_DELAY_MS, REFRESH_RETRY_MAX_DELAY_MS);
+  failureStreak++;
+  setStatusBarCredentialsError(context, message);
+  logCredentials(`Next automatic attempt at ${new Date(nextRefreshAttemptAt).toLocaleTimeString()}`);
+
+  if (failureStreak === 1) {
+    showCredentialsFailure(context, `The MCP access token could not be registered, so MCP servers may reject it: ${message}`);
+  }
+}
+
+function showCredentialsFailure(context: vscode.ExtensionContext, message: string): void {
+  vscode.window.showErrorMessage(message, 'Retry', 'Show Log').then(action => {
+    if (action === 'Retry') {
+      refreshTokenNow(context);
+    } else if (action === 'Show Log') {
+      credentialsLog?.show();
     }
+  });
+}
 
-    const mcpIdpUrl = await readMcpIdpUrl();
-    const userInfo = getSystemUserInfo();
-    
-    // Use the same UUID that was put into mcp.json, or generate a new one if no templates were found
-    const uuidToSend = tokenResult.uuid || generateUUID();
-    
-    await sendCredentialsToMcpServer(context, mcpIdpUrl, userInfo, uuidToSend);
-    console.log(`[MCP Server Selector] User credentials processed and sent at ${new Date().toLocaleTimeString()}, UUID: ${uuidToSend}`);
-  } catch (error) {
-    // Silently handle errors to prevent breaking the timer
-    // Only log in debug mode or if explicitly needed for troubleshooting
+/**
+ * Show the current token's remaining validity in the status bar (nothing
+ * while no IDP URL is configured)
+ */
+export function updateTokenValidityDisplay(context: vscode.ExtensionContext): void {
+  if (!mcpIdpUrlFileExists()) {
+    setStatusBarToken(context, undefined);
+    return;
   }
+  const state = readTokenState();
+  const remainingMs = state.expiresAt ? Date.parse(state.expiresAt) - Date.now() : 0;
+  const failedSinceIssued = state.lastError && (!state.issuedAt || state.lastError.at > state.issuedAt);
+  setStatusBarToken(context, {
+    remaining: formatTokenValidity(remainingMs),
+    expiresAt: state.expiresAt,
+    expired: remainingMs <= 0,
+    lastError: failedSinceIssued ? state.lastError!.message : undefined
+  });
 }
 
+/**
+ * Refresh the token when it is missing or about to expire. The state is
+ * shared and the refresh claimed in it first, so a token another window just
+ * issued or is issuing right now is not replaced.
+ */
+async function checkToken(context: vscode.ExtensionContext): Promise<void> {
+  const now = Date.now();
+  if (lastTokenCheckAt !== undefined && now - lastTokenCheckAt > SLEEP_GAP_MS) {
+    console.log(`[MCP Server Selector] Resumed after ${Math.round((now - lastTokenCheckAt) / 60000)} minute(s); checking the access token`);
+  }
+  lastTokenCheckAt = now;
+
+  if (deliveriesInProgress > 0 || !mcpIdpUrlFileExists()) {
+    updateTokenValidityDisplay(context);
+    return;
+  }
+  if (now < nextRefreshAttemptAt || !claimTokenRefresh(now, getTokenRefreshMarginMs())) {
+    updateTokenValidityDisplay(context);
+    return;
+  }
+
+  await sendCredentials(context);
+}
 
+/**
+ * Command handler: issue a new token right away and report the outcome
+ */
+export async function refreshTokenNow(context: vscode.ExtensionContext): Promise<void> {
+  if (!mcpIdpUrlFileExists()) {
+    vscode.window.showInformationMessage('No IDP URL is configured for the active MCP environment, so no access token is issued');
+    return;
+  }
+  try {
+    await issueAccessToken(context);
+    clearCredentialsFailure(context);
+    const { expiresAt } = readTokenState();
+    vscode.window.showInformationMessage(`Access token refreshed${expiresAt ? `, valid until ${new Date(expiresAt).toLocaleTimeString()}` : ''}`);
+  } catch (error) {
+    recordTokenError(error);
+    console.error('[MCP Selector] Error in refreshTokenNow:', error);
+    setStatusBarCredentialsError(context, error instanceof Error ? error.message : String(error));
+    showCredentialsFailure(context, `Error refreshing the access token: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    updateTokenValidityDisplay(context);
+  }
+}
 
 /**
  * Check if required files exist
@@ -223,7 +402,8 @@ export function requiredFilesExist(): boolean {
 }
 
 /**
- * Start the credentials sending timer
+ * Start the token timer: the token is checked every 30 seconds and when the
+ * window regains focus, and refreshed ahead of its expiry
  */
 export function startCredentialsSender(context: vscode.ExtensionContext): void {
   if (credentialsSenderInterval) {
@@ -231,21 +411,19 @@ export function startCredentialsSender(context: vscode.ExtensionContext): void {
     return;
   }
   
-  // Only start if IDP URL file exists
-  if (!requiredFilesExist()) {
-    // Silently skip starting the credentials sender if file doesn't exist
-    return;
-  }
-  
-  console.log('[MCP Server Selector] Starting user credentials sender with 1-hour interval');
+  console.log('[MCP Server Selector] Starting access token refresh timer');
   
-  // Send immediately on start
-  sendCredentials(context);
+  // Check immediately on start
+  checkToken(context);
   
-  // Then send every hour
   credentialsSenderInterval = setInterval(() => {
-    sendCredentials(context);
-  }, SEND_INTERVAL_MS);
+    checkToken(context);
+  }, TOKEN_CHECK_INTERVAL_MS);
+  context.subscriptions.push(vscode.window.onDidChangeWindowState(windowState => {
+    if (windowState.focused) {
+      checkToken(context);
+    }
+  }));
 }
 
 /**
@@ -255,6 +433,9 @@ export function stopCredentialsSender(): void {
   if (credentialsSenderInterval) {
     clearInterval(credentialsSenderInterval);
     credentialsSenderInterval = undefined;
+    lastTokenCheckAt = undefined;
+    failureStreak = 0;
+    nextRefreshAttemptAt = 0;
     console.log('[MCP Server Selector] User credentials sender stopped');
   }
 }
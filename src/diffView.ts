@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+
+/**
+ * Read-only virtual documents for showing JSON configs side by side
+ */
+
+const DIFF_SCHEME = 'mcp-selector-diff';
+
+const documents = new Map<string, string>();
+let documentCounter = 0;
+
+export function registerDiffContentProvider(context: vscode.ExtensionContext): void {
+  const provider: vscode.TextDocumentContentProvider = {
+    provideTextDocumentContent: uri => documents.get(uri.path) ?? ''
+  };
+  context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(DIFF_SCHEME, provider));
+  // Every diff gets new URIs, so drop the content once its editor is gone
+  context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+    if (document.uri.scheme === DIFF_SCHEME) {
+      documents.delete(document.uri.path);
+    }
+  }));
+}
+
+function createDocumentUri(label: string, content: string): vscode.Uri {
+  documentCounter++;
+  // Keep the label as the file name so the editor picks JSON highlighting
+  const docPath = `/${documentCounter}/${label.replace(/[\\/]/g, '_')}.json`;
+  documents.set(docPath, content);
+  return vscode.Uri.from({ scheme: DIFF_SCHEME, path: docPath });
+}
+
+/**
+ * Open a diff editor between two in-memory documents
+ */
+export async function showContentDiff(leftLabel: string, leftContent: string, rightLabel: string, rightContent: string, title: string): Promise<void> {
+  const left = createDocumentUri(leftLabel, leftContent);
+  const right = createDocumentUri(rightLabel, rightContent);
+  await vscode.commands.executeCommand('vscode.diff', left, right, title, { preview: true });
+}
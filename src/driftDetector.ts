@@ -0,0 +1,331 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { isDeepStrictEqual } from 'util';
+import { switchToEnvironment } from './configManager';
+import { getCurrentEnvironment, getConfigFilePath, getLocalConfigFilePath, getAllEnvironments, renderEnvironmentConfig } from './environmentConfig';
+import { syncWithActiveEnvironment } from './activeEnvironment';
+import { ConfigObject, serializeConfig, renderConfigFile, mergeConfigValues, getLayerPaths, isPlainObject } from './configRenderer';
+import { getDisabledServers } from './serverSelection';
+import { TOKEN_PLACEHOLDER, matchesIgnoringToken, extractTokenValues, maskTokenValues, templateSecretValues } from './interpolation';
+import { getSecretValues } from './secretStore';
+import {
+  McpTargetAdapter,
+  getConfiguredTargets,
+  getTargetAdapter,
+  getTargetWriteMode,
+  getOwnedServerKeys,
+  readTargetConfig,
+  buildExpectedTargetConfig
+} from './mcpTargets';
+import { setStatusBarDrift } from './statusBar';
+import { showContentDiff } from './diffView';
+import { writeFileAtomic } from './atomicWrite';
+
+const DRIFT_CHECK_DELAY_MS = 500;
+
+export interface DriftResult {
+  adapter: McpTargetAdapter;
+  filePath: string;
+  expected: ConfigObject;
+  actual: ConfigObject | undefined;
+}
+
+let watchers: fs.FSWatcher[] = [];
+let driftCheckTimer: NodeJS.Timeout | undefined;
+let lastNotifiedSignature: string | undefined;
+
+/**
+ * Compare every configured target file against the rendered active environment.
+ * Token values are ignored; only files that differ are returned.
+ */
+export function checkForDrift(context: vscode.ExtensionContext): DriftResult[] {
+  // A switch in another window is not drift; follow it before comparing
+  syncWithActiveEnvironment(context, getAllEnvironments());
+  const currentEnv = getCurrentEnvironment(context);
+  let canonical: ConfigObject;
+
+  try {
+    canonical = renderEnvironmentConfig(currentEnv, TOKEN_PLACEHOLDER);
+  } catch (error) {
+    // The environment itself cannot be rendered; the switch already reported it
+    console.warn(`[MCP Server Selector] Skipping drift check, cannot render '${currentEnv}': ${error}`);
+    return [];
+  }
+
+  const drifted: DriftResult[] = [];
+  getConfiguredTargets().forEach(adapter => {
+    const filePath = adapter.getConfigPath();
+    if (!filePath) {
+      return;
+    }
+
+    const actual = readTargetConfig(filePath);
+    const expected = buildExpectedTargetConfig(adapter, canonical, actual, filePath);
+    if (!matchesIgnoringToken(expected, actual)) {
+      drifted.push({ adapter, filePath, expected, actual });
+    }
+  });
+
+  return drifted;
+}
+
+/**
+ * Run a drift check and update the status bar, notifying once per distinct drift
+ */
+export function refreshDriftState(context: vscode.ExtensionContext): DriftResult[] {
+  const drifted = checkForDrift(context);
+  setStatusBarDrift(context, drifted.map(result => result.filePath));
+
+  if (drifted.length === 0) {
+    lastNotifiedSignature = undefined;
+    return drifted;
+  }
+
+  const signature = drifted.map(result => `${result.filePath}:${JSON.stringify(result.actual)}`).join('|');
+  if (signature !== lastNotifiedSignature) {
+    lastNotifiedSignature = signature;
+    const currentEnv = getCurrentEnvironment(context);
+    vscode.window.showWarningMessage(
+      `MCP config was modified outside the selector and no longer matches '${currentEnv}': ${drifted.map(result => result.filePath).join(', ')}`,
+      'Re-apply', 'Adopt Changes', 'View Diff'
+    ).then(action => handleDriftAction(context, action));
+  }
+
+  return drifted;
+}
+
+function scheduleDriftCheck(context: vscode.ExtensionContext): void {
+  if (driftCheckTimer) {
+    clearTimeout(driftCheckTimer);
+  }
+  driftCheckTimer = setTimeout(() => {
+    driftCheckTimer = undefined;
+    refreshDriftState(context);
+  }, DRIFT_CHECK_DELAY_MS);
+}
+
+/**
+ * Watch the configured target files. Directories are watched rather than the
+ * files themselves so that replaced (renamed) files keep being observed.
+ */
+export function startDriftDetection(context: vscode.ExtensionContext): void {
+  stopDriftDetection();
+
+  const fileNamesByDir = new Map<string, Set<string>>();
+  getConfiguredTargets().forEach(adapter => {
+    const filePath = adapter.getConfigPath();
+    if (!filePath) {
+      return;
+    }
+    const dir = path.dirname(filePath);
+    if (!fileNamesByDir.has(dir)) {
+      fileNamesByDir.set(dir, new Set());
+    }
+    fileNamesByDir.get(dir)!.add(path.basename(filePath));
+  });
+
+  fileNamesByDir.forEach((fileNames, dir) => {
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+    try {
+      watchers.push(fs.watch(dir, (eventType, fileName) => {
+        if (fileName && fileNames.has(fileName.toString())) {
+          scheduleDriftCheck(context);
+        }
+      }));
+    } catch (error) {
+      console.warn(`[MCP Server Selector] Could not watch ${dir} for drift: ${error}`);
+    }
+  });
+
+  scheduleDriftCheck(context);
+}
+
+export function stopDriftDetection(): void {
+  watchers.forEach(watcher => watcher.close());
+  watchers = [];
+  if (driftCheckTimer) {
+    clearTimeout(driftCheckTimer);
+    driftCheckTimer = undefined;
+  }
+}
+
+function toMaskedText(result: DriftResult): { expected: string; actual: string } {
+  const tokens = extractTokenValues(result.expected, result.actual);
+  const secrets = getSecretValues();
+  const actualText = result.actual
+    ? serializeConfig(templateSecretValues(result.actual, secrets))
+    : (fs.existsSync(result.filePath) ? templateSecretValues(fs.readFileSync(result.filePath, 'utf-8'), secrets) : '');
+  return {
+    expected: maskTokenValues(serializeConfig(templateSecretValues(result.expected, secrets)), tokens),
+    actual: maskTokenValues(actualText, tokens)
+  };
+}
+
+async function showDriftDiff(context: vscode.ExtensionContext, drifted: DriftResult[]): Promise<void> {
+  const currentEnv = getCurrentEnvironment(context);
+  for (const result of drifted) {
+    const { expected, actual } = toMaskedText(result);
+    await showContentDiff(
+      `${currentEnv} (rendered)`, expected,
+      `${path.basename(result.filePath)} (live)`, actual,
+      `${result.adapter.label}: ${currentEnv} ↔ ${result.filePath}`
+    );
+  }
+}
+
+/**
+ * The live value with the source value kept wherever it still renders to the
+ * live value, so ${...} variables and secrets are not replaced by what they
+ * resolve to on this machine
+ */
+function keepSourceValues(source: unknown, rendered: unknown, live: unknown): unknown {
+  if (source !== undefined && isDeepStrictEqual(rendered, live)) {
+    return source;
+  }
+  if (isPlainObject(source) && isPlainObject(rendered) && isPlainObject(live)) {
+    return Object.fromEntries(Object.keys(live).map(key => [key, keepSourceValues(source[key], rendered[key], live[key])]));
+  }
+  return live;
+}
+
+/**
+ * Write the live Cursor servers that differ from the active environment back
+ * into its file. Fields that did not change keep their source values; token
+ * values are turned back into ${token} and stored secret values into
+ * ${secret:name}. Servers inherited from a layer are overridden with $replace
+ * (or null when removed). Disabled servers are kept.
+ */
+export function adoptLiveConfig(context: vscode.ExtensionContext): string {
+  const currentEnv = getCurrentEnvironment(context);
+  const adapter = getTargetAdapter('cursor');
+  const filePath = adapter.getConfigPath()!;
+  
+  if (!getConfiguredTargets().some(target => target.id === adapter.id)) {
+    throw new Error(`Adopting changes is only supported for Cursor's mcp.json`);
+  }
+  const sourcePath = getConfigFilePath(currentEnv);
+  if (path.resolve(sourcePath) !== path.resolve(getLocalConfigFilePath(currentEnv))) {
+    throw new Error(`Cannot adopt into '${currentEnv}': its file comes from the shared environment source`);
+  }
+  const actual = readTargetConfig(filePath);
+
+  if (!actual) {
+    throw new Error(`${filePath} is missing or not valid JSON`);
+  }
+
+  const canonical = renderEnvironmentConfig(currentEnv, TOKEN_PLACEHOLDER);
+  const expected = buildExpectedTargetConfig(adapter, canonical, actual, filePath);
+  const tokens = extractTokenValues(expected, actual);
+
+  let liveServers: ConfigObject = actual.mcpServers || {};
+  if (getTargetWriteMode() === 'merge') {
+    // Servers added by hand stay personal; only adopt the ones the selector manages
+    const owned = getOwnedServerKeys(filePath);
+    liveServers = Object.fromEntries(Object.entries(liveServers).filter(([name]) => owned.includes(name)));
+  }
+  liveServers = JSON.parse(maskTokenValues(JSON.stringify(liveServers), tokens, TOKEN_PLACEHOLDER));
+
+  const renderedServers: ConfigObject = canonical.mcpServers || {};
+  const definedServers: ConfigObject = renderConfigFile(sourcePath).mcpServers || {};
+  const inheritedServers: ConfigObject = getLayerPaths(sourcePath)
+    .reduce((merged: ConfigObject, layerPath) => mergeConfigValues(merged, renderConfigFile(layerPath)) as ConfigObject, {}).mcpServers || {};
+  // Servers turned off with Choose Servers are never in mcp.json
+  const disabled = getDisabledServers(currentEnv);
+
+  const source = JSON.parse(fs.readFileSync(sourcePath, 'utf-8'));
+  const ownServers: ConfigObject = { ...(source.mcpServers || {}) };
+  const changed: string[] = [];
+
+  Object.keys(liveServers)
+    .filter(name => !isDeepStrictEqual(renderedServers[name], liveServers[name]))
+    .forEach(name => {
+      const kept = keepSourceValues(definedServers[name], renderedServers[name], liveServers[name]);
+      const value = templateSecretValues(JSON.parse(JSON.stringify(kept).split(TOKEN_PLACEHOLDER).join('${token}')), getSecretValues());
+      ownServers[name] = name in inheritedServers ? { $replace: value } : value;
+      changed.push(name);
+    });
+  Object.keys(definedServers)
+    .filter(name => !(name in liveServers) && !disabled.includes(name))
+    .forEach(name => {
+      if (name in inheritedServers) {
+        ownServers[name] = null;
+      } else {
+        delete ownServers[name];
+      }
+      changed.push(name);
+    });
+
+  if (changed.length === 0) {
+    console.log(`[MCP Server Selector] No live server changes to adopt into ${sourcePath}`);
+    return sourcePath;
+  }
+  source.mcpServers = ownServers;
+  writeFileAtomic(sourcePath, JSON.stringify(source, null, 2) + '\n', { verifyJson: true });
+
+  console.log(`[MCP Server Selector] Adopted live servers ${changed.join(', ')} from ${filePath} into ${sourcePath}`);
+  return sourcePath;
+}
+
+async function handleDriftAction(context: vscode.ExtensionContext, action: string | undefined): Promise<void> {
+  const currentEnv = getCurrentEnvironment(context);
+
+  switch (action) {
+    case 'Re-apply': {
+      try {
+        const success = await switchToEnvironment(context, currentEnv);
+        if (!success) {
+          vscode.window.showErrorMessage(`Failed to re-apply ${currentEnv}`);
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to re-apply ${currentEnv}: ${error instanceof Error ? error.message : error}`);
+      }
+      refreshDriftState(context);
+      break;
+    }
+    case 'Adopt Changes': {
+      const confirm = await vscode.window.showWarningMessage(
+        `Replace the servers of '${currentEnv}' with the live values from ${getTargetAdapter('cursor').getConfigPath()}? Values that did not change keep their variables; changed values are saved as they are, with the token and stored secrets turned back into placeholders.`,
+        { modal: true },
+        'Adopt'
+      );
+      if (confirm !== 'Adopt') {
+        return;
+      }
+      try {
+        const sourcePath = adoptLiveConfig(context);
+        vscode.window.showInformationMessage(`Saved live MCP servers to ${sourcePath}`);
+        refreshDriftState(context);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to adopt live MCP config: ${error}`);
+      }
+      break;
+    }
+    case 'View Diff':
+      await showDriftDiff(context, checkForDrift(context));
+      break;
+  }
+}
+
+/**
+ * Command handler for the status bar warning state
+ */
+export async function resolveDrift(context: vscode.ExtensionContext): Promise<void> {
+  const drifted = refreshDriftState(context);
+  if (drifted.length === 0) {
+    vscode.window.showInformationMessage('MCP config matches the active environment');
+    return;
+  }
+
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: 'Re-apply', description: `Overwrite with the rendered '${getCurrentEnvironment(context)}' environment` },
+      { label: 'Adopt Changes', description: 'Save the live Cursor servers into the environment file' },
+      { label: 'View Diff', description: 'Compare the rendered environment with the live file (tokens masked)' }
+    ],
+    { placeHolder: 'MCP config was modified outside the selector' }
+  );
+  await handleDriftAction(context, pick?.label);
+}
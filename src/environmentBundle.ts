@@ -0,0 +1,548 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { ConfigObject, isPlainObject } from './configRenderer';
+import { LEGACY_TOKEN_TEMPLATE, templateSecretValues } from './interpolation';
+import {
+  EnvironmentConfig,
+  loadEnvironmentConfiguration,
+  resolveDangerLevel,
+  getLocalEnvsDir,
+  resolveEnvironmentFile,
+  validateEnvironmentManifest
+} from './environmentParser';
+import { switchToEnvironment, SwitchCancelledError } from './configManager';
+import {
+  getConfigFilePath,
+  getIdpUrlFilePath,
+  getLocalConfigFilePath,
+  getLocalIdpUrlFilePath,
+  getCurrentEnvironment,
+  readAppliedToken
+} from './environmentConfig';
+import { getAccessToken } from './credentialsSender';
+import { getSecretValues } from './secretStore';
+import {
+  EnvironmentMetadata,
+  addEnvironmentConfig,
+  updateEnvironmentMetadata,
+  isManifestActive,
+  suggestConfigBase,
+  validateEnvironmentName,
+  validateConfigBase
+} from './environmentEditor';
+import { writeFileAtomic, removeFileLocked } from './atomicWrite';
+import { updateStatusBarEnvironment, getEnvironmentIcon } from './statusBar';
+
+/**
+ * A single file to share environments with: the manifest entries, env JSONs
+ * (as written, with extends/mixins), the layer files they build on and IDP
+ * URLs. Secret values are replaced with placeholders on export.
+ */
+
+export const BUNDLE_FORMAT = 'mcp-server-selector-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface BundleEnvironment extends EnvironmentMetadata {
+  displayName: string;
+  configFile: string;
+  config: ConfigObject;
+  idpUrl?: string;
+}
+
+export interface EnvironmentBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  environments: BundleEnvironment[];
+  // Base and mixin files, keyed by path relative to the envs folder
+  files: Record<string, ConfigObject>;
+}
+
+export class EnvironmentBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvironmentBundleError';
+  }
+}
+
+export interface SecretValues {
+  tokens: string[];
+  secrets: Record<string, string>;
+}
+
+export interface StrippedConfig {
+  config: ConfigObject;
+  // Secret keys the stripped config now refers to
+  placeholders: string[];
+}
+
+const SENSITIVE_KEY = /(token|secret|password|passwd|api[-_]?key|authorization|credential|cookie|private[-_]?key)/i;
+const SENSITIVE_QUERY = /([?&](?:access_token|token|api[-_]?key|apikey|key|secret|password)=)([^&#]+)/gi;
+const AUTH_SCHEME = /^(Bearer|Basic|Token)\s+/i;
+
+function isPlaceholder(value: string): boolean {
+  return value.includes('${') || value.includes(LEGACY_TOKEN_TEMPLATE);
+}
+
+function secretKeyFor(jsonPath: string[]): string {
+  const serverName = jsonPath[0] === 'mcpServers' ? jsonPath[1] : undefined;
+  return [serverName, jsonPath[jsonPath.length - 1]]
+    .filter(part => part)
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-');
+}
+
+/**
+ * Replace secret values with placeholders: known tokens become
+ * access_token_template, stored secret values become ${secret:key}, and
+ * literal values of sensitive-looking keys and URL parameters become
+ * ${secret:<server>-<key>}
+ */
+export function stripSecrets(config: ConfigObject, values: SecretValues): StrippedConfig {
+  const placeholders = new Set<string>();
+
+  const stripString = (value: string, jsonPath: string[]): string => {
+    let result = values.tokens.reduce((text, token) => token ? text.split(token).join(LEGACY_TOKEN_TEMPLATE) : text, value);
+    result = templateSecretValues(result, values.secrets, placeholders);
+
+    const key = secretKeyFor(jsonPath);
+    result = result.replace(SENSITIVE_QUERY, (match: string, prefix: string, secret: string) => {
+      if (isPlaceholder(secret)) {
+        return match;
+      }
+      placeholders.add(key);
+      return `${prefix}\${secret:${key}}`;
+    });
+
+    const keyName = jsonPath[jsonPath.length - 1] ?? '';
+    if (SENSITIVE_KEY.test(keyName) && result && !isPlaceholder(result)) {
+      const scheme = AUTH_SCHEME.exec(result)?.[0] ?? '';
+      placeholders.add(key);
+      result = `${scheme}\${secret:${key}}`;
+    }
+    return result;
+  };
+
+  const strip = (value: unknown, jsonPath: string[]): unknown => {
+    if (typeof value === 'string') {
+      return stripString(value, jsonPath);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => strip(item, jsonPath));
+    }
+    if (isPlainObject(value)) {
+      const result: ConfigObject = {};
+      Object.keys(value).forEach(key => {
+        // File references are not secrets
+        result[key] = jsonPath.length === 0 && (key === 'extends' || key === 'mixins') ? value[key] : strip(value[key], [...jsonPath, key]);
+      });
+      return result;
+    }
+    return value;
+  };
+
+  return { config: strip(config, []) as ConfigObject, placeholders: Array.from(placeholders) };
+}
+
+/**
+ * Secret keys referenced with ${secret:key} anywhere in a config
+ */
+export function findSecretReferences(config: ConfigObject): string[] {
+  const matches = JSON.stringify(config).match(/(?<!\$)\$\{secret:([^}:]+)(:-[^}]*)?\}/g) || [];
+  return Array.from(new Set(matches.map(match => match.replace(/^\$\{secret:/, '').replace(/(:-[^}]*)?\}$/, ''))));
+}
+
+function readJsonFile(filePath: string): ConfigObject {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Base and mixin files (relative to the envs folder) that the given config
+ * files build on, excluding the config files themselves
+ */
+export function collectLayerFiles(envsDir: string, configFileNames: string[]): string[] {
+  const found = new Set<string>();
+  const visit = (filePath: string) => {
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+    const config = readJsonFile(filePath);
+    const layers = [
+      ...(typeof config.extends === 'string' ? [config.extends] : []),
+      ...(Array.isArray(config.mixins) ? config.mixins.filter((mixin: unknown) => typeof mixin === 'string') : [])
+    ];
+    layers.forEach(layer => {
+      const layerPath = path.resolve(path.dirname(filePath), layer.endsWith('.json') ? layer : `${layer}.json`);
+      const relative = path.relative(envsDir, layerPath).split(path.sep).join('/');
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        console.warn(`[MCP Server Selector] Not bundling ${layerPath}: it is outside ${envsDir}`);
+        return;
+      }
+      if (!configFileNames.includes(relative) && !found.has(relative)) {
+        found.add(relative);
+        visit(layerPath);
+      }
+    });
+  };
+
+  configFileNames.forEach(fileName => visit(path.join(envsDir, fileName)));
+  return Array.from(found).sort();
+}
+
+/**
+ * Build a bundle of the given environments with secrets stripped.
+ * Danger levels are pinned so they survive a different list order.
+ */
+export function createEnvironmentBundle(envNames: string[], values: SecretValues): { bundle: EnvironmentBundle; placeholders: string[] } {
+  const { environments, totalCount } = loadEnvironmentConfiguration();
+  const selected = environments.filter(env => envNames.includes(env.displayName));
+  const placeholders = new Set<string>();
+  const strip = (config: ConfigObject) => {
+    const stripped = stripSecrets(config, values);
+    stripped.placeholders.forEach(key => placeholders.add(key));
+    return stripped.config;
+  };
+
+  const bundleEnvironments = selected.map((env: EnvironmentConfig): BundleEnvironment => {
+    const idpUrlPath = getIdpUrlFilePath(env.displayName);
+    const idpUrl = fs.existsSync(idpUrlPath) ? fs.readFileSync(idpUrlPath, 'utf-8').trim() : '';
+    return {
+      displayName: env.displayName,
+      configFile: env.configFileName.replace(/\.json$/, ''),
+      description: env.description,
+      dangerLevel: resolveDangerLevel(env, totalCount),
+      color: env.color,
+      icon: env.icon,
+      tags: env.tags,
+      owner: env.owner,
+      switchGuard: env.switchGuard,
+      config: strip(readJsonFile(getConfigFilePath(env.displayName))),
+      idpUrl: idpUrl || undefined
+    };
+  });
+
+  // Local and shared config files are collected separately; a layer missing
+  // next to a local file comes from the shared source
+  const files: Record<string, ConfigObject> = {};
+  const envsDirs = Array.from(new Set(selected.map(env => path.dirname(getConfigFilePath(env.displayName)))));
+  envsDirs.forEach(envsDir => {
+    const configFileNames = selected
+      .filter(env => path.dirname(getConfigFilePath(env.displayName)) === envsDir)
+      .map(env => env.configFileName);
+    collectLayerFiles(envsDir, configFileNames).forEach(relative => {
+      const layerPath = path.join(envsDir, relative);
+      files[relative] ??= strip(readJsonFile(fs.existsSync(layerPath) ? layerPath : resolveEnvironmentFile(relative)));
+    });
+  });
+
+  return {
+    bundle: { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), environments: bundleEnvironments, files },
+    placeholders: Array.from(placeholders).sort()
+  };
+}
+
+/**
+ * Parse and check a bundle file's content
+ */
+export function parseEnvironmentBundle(content: string): EnvironmentBundle {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(content);
+  } catch (error) {
+    throw new EnvironmentBundleError(`Not a JSON file: ${error}`);
+  }
+
+  if (!isPlainObject(bundle) || bundle.format !== BUNDLE_FORMAT) {
+    throw new EnvironmentBundleError('Not an MCP Server Selector environment bundle');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+    throw new EnvironmentBundleError(`Unsupported bundle version ${bundle.version}; update the extension to import it`);
+  }
+  if (!Array.isArray(bundle.environments) || bundle.environments.some((env: unknown) =>
+    !isPlainObject(env) || typeof env.displayName !== 'string' || typeof env.configFile !== 'string' || !isPlainObject(env.config))) {
+    throw new EnvironmentBundleError('Every bundled environment needs a displayName, configFile and config');
+  }
+  const files: unknown = bundle.files ?? {};
+  if (!isPlainObject(files) || Object.values(files).some(file => !isPlainObject(file))) {
+    throw new EnvironmentBundleError('Bundled files must be JSON objects keyed by their path');
+  }
+  if (Object.keys(files).some(relative => relative.split(/[\\/]/).includes('..') || path.isAbsolute(relative))) {
+    throw new EnvironmentBundleError('Bundled files must stay inside the envs folder');
+  }
+
+  return { ...bundle, files } as EnvironmentBundle;
+}
+
+export type ImportResolution =
+  | { action: 'add'; configBase: string }
+  | { action: 'overwrite' }
+  | { action: 'rename'; displayName: string; configBase: string }
+  | { action: 'skip' };
+
+/**
+ * A config file base name that neither another environment nor an
+ * unregistered file in the envs folder uses
+ */
+export function findFreeConfigBase(preferred: string, environments: EnvironmentConfig[], envsDir: string): string {
+  let base = preferred;
+  for (let counter = 2; environments.some(env => env.configFileName === `${base}.json`) || fs.existsSync(path.join(envsDir, `${base}.json`)); counter++) {
+    base = `${preferred}-${counter}`;
+  }
+  return base;
+}
+
+/**
+ * Write a bundled environment according to its resolution. Returns the name
+ * it was imported under, or undefined when skipped.
+ */
+export function importBundleEnvironment(env: BundleEnvironment, resolution: ImportResolution): string | undefined {
+  const { displayName: bundledName, configFile, config, idpUrl, ...metadata } = env;
+
+  switch (resolution.action) {
+    case 'skip':
+      return undefined;
+    case 'overwrite':
+      // Overwriting a shared environment creates a local override
+      writeFileAtomic(getLocalConfigFilePath(bundledName), JSON.stringify(config, null, 2), { verifyJson: true });
+      if (idpUrl) {
+        writeFileAtomic(getLocalIdpUrlFilePath(bundledName), idpUrl);
+      } else {
+        removeFileLocked(getLocalIdpUrlFilePath(bundledName));
+      }
+      updateEnvironmentMetadata(bundledName, metadata);
+      return bundledName;
+    case 'add':
+    case 'rename': {
+      const displayName = resolution.action === 'rename' ? resolution.displayName : bundledName;
+      addEnvironmentConfig({ displayName, configBase: resolution.configBase, idpUrl, config, metadata });
+      return displayName;
+    }
+  }
+}
+
+/**
+ * Write the bundled layer files that are missing; differing ones only when
+ * listed in overwrite
+ */
+export function importBundleFiles(bundle: EnvironmentBundle, overwrite: string[]): string[] {
+  const envsDir = getLocalEnvsDir();
+  return Object.keys(bundle.files).filter(relative => {
+    const filePath = path.join(envsDir, relative);
+    if (fs.existsSync(filePath) && !overwrite.includes(relative)) {
+      return false;
+    }
+    writeFileAtomic(filePath, JSON.stringify(bundle.files[relative], null, 2), { verifyJson: true });
+    return true;
+  });
+}
+
+async function collectSecretValues(context: vscode.ExtensionContext): Promise<SecretValues> {
+  const tokens = [readAppliedToken(getCurrentEnvironment(context)), await getAccessToken(context)];
+  return { tokens: tokens.filter((token): token is string => !!token), secrets: getSecretValues() };
+}
+
+/**
+ * Command handler: pick environments and save them as a bundle
+ */
+export async function exportEnvironments(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const { environments } = loadEnvironmentConfiguration();
+    const picks = await vscode.window.showQuickPick(
+      environments.map(env => ({ label: `${getEnvironmentIcon(env.displayName)} ${env.displayName}`, description: env.configFileName, picked: true, env: env.displayName })),
+      { canPickMany: true, placeHolder: 'Export which MCP environments?' }
+    );
+    if (!picks || picks.length === 0) {
+      return;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), 'mcp-environments.bundle.json')),
+      filters: { 'MCP environment bundle': ['json'] },
+      saveLabel: 'Export'
+    });
+    if (!target) {
+      return;
+    }
+
+    const { bundle, placeholders } = createEnvironmentBundle(picks.map(pick => pick.env), await collectSecretValues(context));
+    writeFileAtomic(target.fsPath, JSON.stringify(bundle, null, 2) + '\n', { verifyJson: true });
+    console.log(`[MCP Server Selector] Exported ${bundle.environments.length} environment(s) to ${target.fsPath}`);
+
+    vscode.window.showInformationMessage(
+      `Exported ${bundle.environments.length} MCP environment(s) to ${path.basename(target.fsPath)}` +
+      (placeholders.length > 0 ? `. Secrets were replaced with placeholders: ${placeholders.join(', ')}` : '')
+    );
+  } catch (error) {
+    console.error('[MCP Selector] Error in exportEnvironments:', error);
+    vscode.window.showErrorMessage(`Error exporting environments: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Ask what to do with a bundled environment whose name is taken.
+ * Returns undefined when the whole import is cancelled.
+ */
+async function resolveNameConflict(env: BundleEnvironment, environments: EnvironmentConfig[], envsDir: string): Promise<ImportResolution | undefined> {
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: '$(circle-slash) Skip', description: 'Keep your environment', action: 'skip' as const },
+      { label: '$(replace) Overwrite', description: 'Replace your config, IDP URL and settings', action: 'overwrite' as const },
+      { label: '$(edit) Rename...', description: 'Import it under another name', action: 'rename' as const }
+    ],
+    { placeHolder: `An environment named '${env.displayName}' already exists`, ignoreFocusOut: true }
+  );
+  if (!pick) {
+    return undefined;
+  }
+  if (pick.action !== 'rename') {
+    return { action: pick.action };
+  }
+
+  const displayName = await vscode.window.showInputBox({
+    prompt: `Import '${env.displayName}' as`,
+    value: `${env.displayName} (imported)`,
+    validateInput: value => validateEnvironmentName(value, environments)
+  });
+  if (displayName === undefined) {
+    return undefined;
+  }
+  return { action: 'rename', displayName: displayName.trim(), configBase: findFreeConfigBase(suggestConfigBase(displayName.trim(), environments), environments, envsDir) };
+}
+
+/**
+ * Why a bundled environment cannot be imported as resolved: an invalid name
+ * or file name, or settings the manifest would reject
+ */
+function findImportProblem(env: BundleEnvironment, resolution: ImportResolution, known: EnvironmentConfig[]): string | undefined {
+  if (resolution.action === 'skip') {
+    return undefined;
+  }
+  const { displayName: bundledName, configFile, config, idpUrl, ...metadata } = env;
+  const displayName = resolution.action === 'rename' ? resolution.displayName : bundledName;
+  if (resolution.action !== 'overwrite') {
+    const problem = validateEnvironmentName(displayName, known) ?? validateConfigBase(resolution.configBase, known);
+    if (problem) {
+      return problem;
+    }
+  }
+  const { errors } = validateEnvironmentManifest(JSON.stringify({
+    environments: [{ ...metadata, displayName, configFile: resolution.action === 'overwrite' ? configFile : resolution.configBase }]
+  }));
+  return errors.length > 0 ? errors.map(error => error.replace(/^Environment 1: /, '')).join('; ') : undefined;
+}
+
+/**
+ * Decide how to import each bundled environment. A taken name asks the user;
+ * a taken or unusable config file alone just gets a free file name. Names and
+ * files planned earlier in the same import count as taken. Throws before
+ * anything is written when an environment cannot be imported.
+ */
+export async function planBundleImport(bundle: EnvironmentBundle, envsDir: string): Promise<ImportResolution[] | undefined> {
+  const known = [...loadEnvironmentConfiguration().environments];
+  const resolutions: ImportResolution[] = [];
+
+  for (const env of bundle.environments) {
+    const bundledBase = env.configFile.replace(/\.json$/, '');
+    const preferredBase = validateConfigBase(bundledBase, []) ? suggestConfigBase(env.displayName, known) : bundledBase;
+    const resolution = known.some(existing => existing.displayName === env.displayName)
+      ? await resolveNameConflict(env, known, envsDir)
+      : { action: 'add' as const, configBase: findFreeConfigBase(preferredBase, known, envsDir) };
+    if (!resolution) {
+      return undefined;
+    }
+    const problem = findImportProblem(env, resolution, known);
+    if (problem) {
+      throw new EnvironmentBundleError(`'${env.displayName}' cannot be imported: ${problem}`);
+    }
+
+    if (resolution.action === 'add' || resolution.action === 'rename') {
+      known.push({
+        displayName: resolution.action === 'rename' ? resolution.displayName : env.displayName,
+        configFileName: `${resolution.configBase}.json`,
+        position: known.length
+      });
+    }
+    resolutions.push(resolution);
+  }
+  return resolutions;
+}
+
+/**
+ * Command handler: import a bundle, resolving conflicts per environment
+ */
+export async function importEnvironments(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const source = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'MCP environment bundle': ['json'] },
+      openLabel: 'Import'
+    });
+    if (!source || source.length === 0) {
+      return;
+    }
+    const bundle = parseEnvironmentBundle(fs.readFileSync(source[0].fsPath, 'utf-8'));
+    const envsDir = getLocalEnvsDir();
+
+    // Decide and check everything up front so cancelling or an unusable environment leaves the environments untouched
+    const resolutions = await planBundleImport(bundle, envsDir);
+    if (!resolutions) {
+      return;
+    }
+
+    const changedFiles = Object.keys(bundle.files).filter(relative => {
+      const filePath = path.join(envsDir, relative);
+      return fs.existsSync(filePath) && JSON.stringify(readJsonFile(filePath)) !== JSON.stringify(bundle.files[relative]);
+    });
+    let overwriteFiles: string[] = [];
+    if (changedFiles.length > 0) {
+      const picks = await vscode.window.showQuickPick(
+        changedFiles.map(relative => ({ label: relative, description: 'differs from your copy' })),
+        { canPickMany: true, placeHolder: 'Overwrite which shared base files? Unselected files keep your version', ignoreFocusOut: true }
+      );
+      if (!picks) {
+        return;
+      }
+      overwriteFiles = picks.map(pick => pick.label);
+    }
+
+    importBundleFiles(bundle, overwriteFiles);
+    const imported = bundle.environments
+      .map((env, index) => importBundleEnvironment(env, resolutions[index]))
+      .filter((name): name is string => !!name);
+
+    // Re-apply the active environment if it was overwritten
+    const currentEnv = getCurrentEnvironment(context);
+    if (resolutions.some((resolution, index) => resolution.action === 'overwrite' && bundle.environments[index].displayName === currentEnv)) {
+      await switchToEnvironment(context, currentEnv);
+    }
+    updateStatusBarEnvironment(context);
+
+    const secrets = getSecretValues();
+    const missingSecrets = Array.from(new Set(bundle.environments
+      .filter((env, index) => resolutions[index].action !== 'skip')
+      .flatMap(env => findSecretReferences(env.config))
+      .concat(Object.values(bundle.files).flatMap(findSecretReferences))))
+      .filter(key => !secrets[key]);
+    const hasMetadata = bundle.environments.some(env => env.color || env.icon || env.description || env.tags || env.owner || env.switchGuard);
+
+    console.log(`[MCP Server Selector] Imported ${imported.length} environment(s) from ${source[0].fsPath}`);
+    vscode.window.showInformationMessage(
+      `Imported ${imported.length} of ${bundle.environments.length} MCP environment(s)` +
+      (imported.length > 0 ? `: ${imported.join(', ')}` : '') +
+      (hasMetadata && !isManifestActive() ? '. Colors, icons and other settings need the JSON manifest (MCP: Upgrade Environments to JSON Manifest)' : '')
+    );
+    if (missingSecrets.length > 0) {
+      vscode.window.showWarningMessage(`The imported environments need these secrets before use: ${missingSecrets.join(', ')}`);
+    }
+  } catch (error) {
+    if (error instanceof SwitchCancelledError) {
+      vscode.window.showInformationMessage(error.message);
+      return;
+    }
+    console.error('[MCP Selector] Error in importEnvironments:', error);
+    vscode.window.showErrorMessage(`Error importing environments: ${error instanceof Error ? error.message : error}`);
+  }
+}
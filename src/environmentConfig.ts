@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { loadEnvironmentConfiguration, resolveEnvironmentFile, getLocalEnvsDir, IdpTlsSettings } from './environmentParser';
+import { getSecretValues } from './secretStore';
+import { renderConfigFile, ConfigObject } from './configRenderer';
+import { interpolateConfig, configUsesToken, InterpolationVariables, TOKEN_PLACEHOLDER, extractTokenValues } from './interpolation';
+import { getConfiguredTargets, getTargetAdapter, writeConfigToTargets, readTargetConfig } from './mcpTargets';
+import { applyServerSelection } from './serverSelection';
+import { getUserHome } from './userHome';
+
+/**
+ * Where each environment's files are, which environment is active and what
+ * its config renders to. Switching (configManager) and the modules it calls
+ * all build on this.
+ */
+
+// Dynamic environment functions
+export function getConfigFileBase(displayName: string): string | undefined {
+  const envConfig = loadEnvironmentConfiguration();
+  const env = envConfig.environments.find(e => e.displayName === displayName);
+  if (!env) {return undefined;}
+  
+  // Remove .json extension if present to get the base name
+  return env.configFileName.replace('.json', '');
+}
+
+export function getAllEnvironments(): string[] {
+  return loadEnvironmentConfiguration().environments.map(e => e.displayName);
+}
+
+function getEnvironmentFileName(displayName: string, suffix: string): string {
+  const fileBase = getConfigFileBase(displayName);
+  
+  if (!fileBase) {
+    throw new Error(`Unknown environment: ${displayName}`);
+  }
+  
+  return fileBase + suffix;
+}
+
+/**
+ * Config file of an environment: the local one, or the shared source's when
+ * only that exists
+ */
+export function getConfigFilePath(displayName: string): string {
+  return resolveEnvironmentFile(getEnvironmentFileName(displayName, '.json'));
+}
+
+export function getIdpUrlFilePath(displayName: string): string {
+  return resolveEnvironmentFile(getEnvironmentFileName(displayName, '-idp-url.txt'));
+}
+
+/**
+ * Where the environment's files are written; edits never touch the shared source
+ */
+export function getLocalConfigFilePath(displayName: string): string {
+  return path.join(getLocalEnvsDir(), getEnvironmentFileName(displayName, '.json'));
+}
+
+export function getLocalIdpUrlFilePath(displayName: string): string {
+  return path.join(getLocalEnvsDir(), getEnvironmentFileName(displayName, '-idp-url.txt'));
+}
+
+export function getCursorMcpPath(): string {
+  return getTargetAdapter('cursor').getConfigPath()!;
+}
+
+export function getCursorIdpUrlPath(): string {
+  const home = getUserHome();
+  return path.join(home, '.cursor', 'mcp-selector', 'mcp-idp-url.txt');
+}
+
+export function getInterpolationVariables(displayName: string, token?: string): InterpolationVariables {
+  return {
+    envName: displayName,
+    userHome: getUserHome(),
+    workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+    token,
+    env: process.env,
+    secrets: getSecretValues()
+  };
+}
+
+/**
+ * Render the environment config with its base and mixin layers applied,
+ * disabled servers dropped and ${...} variables interpolated. This is the
+ * content that ends up in mcp.json. Without a token, token placeholders are
+ * left in place.
+ */
+export function renderEnvironmentConfig(displayName: string, token?: string): ConfigObject {
+  const layered = applyServerSelection(renderConfigFile(getConfigFilePath(displayName)), displayName);
+  return interpolateConfig(layered, getInterpolationVariables(displayName, token));
+}
+
+/**
+ * The token the last switch wrote into Cursor's mcp.json for this environment.
+ * Undefined when the environment has no token or mcp.json holds another environment.
+ */
+export function readAppliedToken(displayName: string): string | undefined {
+  try {
+    const live = readTargetConfig(getCursorMcpPath());
+    return live ? extractTokenValues(renderEnvironmentConfig(displayName, TOKEN_PLACEHOLDER), live)[0] : undefined;
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not read applied token for '${displayName}': ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * The environment's TLS settings for its IDP URL, interpolated and with file
+ * paths made absolute. Undefined when the manifest declares none.
+ */
+export function getIdpTlsSettings(displayName: string): IdpTlsSettings | undefined {
+  const env = loadEnvironmentConfiguration().environments.find(e => e.displayName === displayName);
+  if (!env?.idpTls) {
+    return undefined;
+  }
+  const settings: IdpTlsSettings = interpolateConfig(env.idpTls, getInterpolationVariables(displayName));
+  const baseDir = path.dirname(getConfigFilePath(displayName));
+  (['ca', 'cert', 'key'] as const).forEach(field => {
+    const value = settings[field];
+    if (value) {
+      settings[field] = path.resolve(baseDir, value.startsWith('~') ? path.join(getUserHome(), value.substring(1)) : value);
+    }
+  });
+  return settings;
+}
+
+/**
+ * Get the current environment from the extension context
+ */
+export function getCurrentEnvironment(context: vscode.ExtensionContext): string {
+  const envConfig = loadEnvironmentConfiguration();
+  const defaultEnv = envConfig.environments.length > 0 ? envConfig.environments[0].displayName : 'Local';
+  return context.workspaceState.get<string>('mcpCurrentEnv') || defaultEnv;
+}
+
+/**
+ * Replace token placeholders (access_token_template or ${token}) with a new UUID
+ * by rendering the source config and ensuring the same UUID is used consistently
+ */
+export function replaceTokenTemplateFromSource(context: vscode.ExtensionContext, newUuid: string): { success: boolean; uuid?: string } {
+  try {
+    // Get current environment
+    const currentEnv = getCurrentEnvironment(context);
+    const sourceFilePath = getConfigFilePath(currentEnv);
+    
+    if (!fs.existsSync(sourceFilePath)) {
+      console.error(`[MCP Server Selector] Source config file does not exist: ${sourceFilePath}`);
+      return { success: false };
+    }
+    
+    // Check if a token placeholder exists in the rendered source
+    if (!configUsesToken(renderEnvironmentConfig(currentEnv))) {
+      console.log(`[MCP Server Selector] No token placeholder found in source config for ${currentEnv}`);
+      return { success: true }; // Not an error, just nothing to replace
+    }
+    
+    // Render the UUID into all token placeholders
+    const updatedConfig = renderEnvironmentConfig(currentEnv, newUuid);
+    
+    // Write the updated content to every configured MCP client
+    const results = writeConfigToTargets(updatedConfig, getConfiguredTargets());
+    if (results.some(result => !result.success)) {
+      return { success: false, uuid: newUuid };
+    }
+    
+    console.log(`[MCP Server Selector] Replaced token placeholders for environment: ${currentEnv}`);
+    return { success: true, uuid: newUuid };
+  } catch (error) {
+    console.error(`[MCP Server Selector] Failed to replace token template from source: ${error}`);
+    return { success: false };
+  }
+}
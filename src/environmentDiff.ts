@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { getCurrentEnvironment, getAllEnvironments, renderEnvironmentConfig } from './environmentConfig';
+import { ConfigObject, serializeConfig } from './configRenderer';
+import { TOKEN_PLACEHOLDER, matchesIgnoringToken, extractTokenValues, maskTokenValues, templateSecretValues } from './interpolation';
+import { getSecretValues } from './secretStore';
+import { getConfiguredTargets, getTargetAdapter, readTargetConfig } from './mcpTargets';
+import { getEnvironmentIcon } from './statusBar';
+import { showContentDiff } from './diffView';
+
+export interface ServerChangeSummary {
+  added: string[];
+  removed: string[];
+  changed: string[];
+  unchanged: string[];
+}
+
+/**
+ * Compare the mcpServers of the live config against a candidate rendered with TOKEN_PLACEHOLDER
+ */
+export function summarizeServerChanges(current: ConfigObject | undefined, candidate: ConfigObject): ServerChangeSummary {
+  const currentServers: ConfigObject = current?.mcpServers || {};
+  const candidateServers: ConfigObject = candidate.mcpServers || {};
+  const summary: ServerChangeSummary = { added: [], removed: [], changed: [], unchanged: [] };
+
+  Object.keys(candidateServers).forEach(name => {
+    if (!(name in currentServers)) {
+      summary.added.push(name);
+    } else if (matchesIgnoringToken(candidateServers[name], currentServers[name])) {
+      summary.unchanged.push(name);
+    } else {
+      summary.changed.push(name);
+    }
+  });
+  Object.keys(currentServers)
+    .filter(name => !(name in candidateServers))
+    .forEach(name => summary.removed.push(name));
+
+  return summary;
+}
+
+export function formatServerChangeSummary(summary: ServerChangeSummary): string {
+  const parts = [
+    summary.added.length > 0 ? `added: ${summary.added.join(', ')}` : undefined,
+    summary.removed.length > 0 ? `removed: ${summary.removed.join(', ')}` : undefined,
+    summary.changed.length > 0 ? `changed: ${summary.changed.join(', ')}` : undefined
+  ].filter(part => part);
+  return parts.length > 0 ? parts.join('; ') : 'no server changes';
+}
+
+/**
+ * Serialize a config for a diff view: token values masked and stored secret
+ * values shown as ${secret:name}
+ */
+export function toMaskedConfigText(config: ConfigObject | undefined, tokens: string[], secrets: Record<string, string>): string {
+  return config ? maskTokenValues(serializeConfig(templateSecretValues(config, secrets)), tokens) : '';
+}
+
+interface EnvironmentComparison {
+  currentLabel: string;
+  currentText: string;
+  candidateText: string;
+  summary: ServerChangeSummary;
+}
+
+/**
+ * Compare what Cursor currently has (or the rendered active environment when
+ * Cursor is not a target) with a candidate environment, tokens and secrets masked
+ */
+function compareWithCandidate(context: vscode.ExtensionContext, candidateEnv: string): EnvironmentComparison {
+  const currentEnv = getCurrentEnvironment(context);
+  const cursor = getTargetAdapter('cursor');
+  const useLiveFile = getConfiguredTargets().some(target => target.id === cursor.id);
+
+  const currentRendered = renderEnvironmentConfig(currentEnv, TOKEN_PLACEHOLDER);
+  const current = useLiveFile ? readTargetConfig(cursor.getConfigPath()!) : currentRendered;
+  const candidate = renderEnvironmentConfig(candidateEnv, TOKEN_PLACEHOLDER);
+  const tokens = current ? extractTokenValues(currentRendered, current) : [];
+  const secrets = getSecretValues();
+
+  return {
+    currentLabel: useLiveFile ? 'mcp.json (live)' : `${currentEnv} (rendered)`,
+    currentText: toMaskedConfigText(current, tokens, secrets),
+    candidateText: toMaskedConfigText(candidate, tokens, secrets),
+    summary: summarizeServerChanges(current, candidate)
+  };
+}
+
+async function openComparisonDiff(comparison: EnvironmentComparison, candidateEnv: string): Promise<void> {
+  await showContentDiff(
+    comparison.currentLabel, comparison.currentText,
+    `${candidateEnv} (rendered)`, comparison.candidateText,
+    `MCP: ${comparison.currentLabel} ↔ ${candidateEnv}`
+  );
+}
+
+/**
+ * Optional preview step before a switch. Resolves to true when the switch should go ahead.
+ */
+export async function previewEnvironmentSwitch(context: vscode.ExtensionContext, candidateEnv: string): Promise<boolean> {
+  const comparison = compareWithCandidate(context, candidateEnv);
+  const summary = formatServerChangeSummary(comparison.summary);
+
+  const choice = await vscode.window.showInformationMessage(
+    `Switch MCP environment to ${candidateEnv}? Changes: ${summary}.`,
+    { modal: true },
+    'Switch', 'Show Diff'
+  );
+  if (choice !== 'Show Diff') {
+    return choice === 'Switch';
+  }
+
+  await openComparisonDiff(comparison, candidateEnv);
+  return await vscode.window.showInformationMessage(`Switch MCP environment to ${candidateEnv}?`, 'Switch') === 'Switch';
+}
+
+export function isPreviewBeforeSwitchEnabled(): boolean {
+  return vscode.workspace.getConfiguration('mcpServerSelector').get<boolean>('previewBeforeSwitch', false);
+}
+
+export async function compareEnvironments(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const currentEnv = getCurrentEnvironment(context);
+    const candidates = getAllEnvironments().filter(env => env !== currentEnv);
+
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage('No other MCP environments to compare with');
+      return;
+    }
+
+    const candidatePick = await vscode.window.showQuickPick(
+      candidates.map(env => ({ label: `${getEnvironmentIcon(env)} ${env}`, env })),
+      { placeHolder: `Compare ${currentEnv} with...` }
+    );
+    if (!candidatePick) {
+      return;
+    }
+
+    const comparison = compareWithCandidate(context, candidatePick.env);
+    await openComparisonDiff(comparison, candidatePick.env);
+
+    const { added, removed, changed } = comparison.summary;
+    const items: (vscode.QuickPickItem & { switchTo?: string })[] = [
+      ...added.map(name => ({ label: `$(add) ${name}`, description: 'added' })),
+      ...removed.map(name => ({ label: `$(remove) ${name}`, description: 'removed' })),
+      ...changed.map(name => ({ label: `$(edit) ${name}`, description: 'changed' })),
+      { label: `$(arrow-right) Switch to ${candidatePick.env}`, switchTo: candidatePick.env }
+    ];
+
+    const pick = await vscode.window.showQuickPick(items, {
+      placeHolder: `${currentEnv} → ${candidatePick.env}: ${formatServerChangeSummary(comparison.summary)}`
+    });
+    if (pick?.switchTo) {
+      await vscode.commands.executeCommand('mcp-server-selector.selectEnvironment', pick.switchTo);
+    }
+  } catch (error) {
+    console.error('[MCP Selector] Error in compareEnvironments:', error);
+    vscode.window.showErrorMessage(`Error comparing environments: ${error}`);
+  }
+}
@@ -0,0 +1,702 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+  EnvironmentConfig,
+  EnvironmentManifestEntry,
+  loadEnvironmentConfiguration,
+  resolveDangerLevel,
+  getEnvironmentPropsPath,
+  getEnvironmentManifestPath,
+  validateEnvironmentManifest,
+  createDefaultEnvironmentPropsIfNeeded,
+  getLocalEnvsDir,
+  resolveEnvironmentFile
+} from './environmentParser';
+import { switchToEnvironment, SwitchCancelledError } from './configManager';
+import {
+  getConfigFilePath,
+  getIdpUrlFilePath,
+  getLocalConfigFilePath,
+  getLocalIdpUrlFilePath,
+  getCurrentEnvironment
+} from './environmentConfig';
+import { getDisabledServers, setDisabledServers } from './serverSelection';
+import { writeFileAtomic, withFileLock, removeFileLocked } from './atomicWrite';
+import { ConfigObject, getLayerPaths } from './configRenderer';
+import { getSafestEnvironment, renameTemporarySessionEnvironment } from './temporarySession';
+import { renameCachedCapabilities } from './serverCapabilities';
+import { updateStatusBarEnvironment, getEnvironmentIcon } from './statusBar';
+
+/**
+ * Edits to the environment list. The props file is edited line by line so
+ * comments and blank lines survive; the JSON manifest is edited instead when
+ * it is the active source. Only the local files are edited, never the shared
+ * source.
+ */
+
+export interface EnvironmentSourceEdit {
+  props: (lines: string[]) => string[];
+  manifest: (entries: EnvironmentManifestEntry[]) => EnvironmentManifestEntry[];
+}
+
+export function isManifestActive(): boolean {
+  const manifestPath = getEnvironmentManifestPath();
+  return fs.existsSync(manifestPath) && validateEnvironmentManifest(fs.readFileSync(manifestPath, 'utf-8')).isValid;
+}
+
+/**
+ * Index of the props line that declares displayName, or -1
+ */
+export function findPropsEntryIndex(lines: string[], displayName: string): number {
+  return lines.findIndex(line => {
+    const trimmed = line.trim();
+    const colonIndex = trimmed.indexOf(':');
+    return !trimmed.startsWith('#') && colonIndex !== -1 && trimmed.substring(0, colonIndex).trim() === displayName;
+  });
+}
+
+export function formatPropsEntry(displayName: string, configBase: string): string {
+  return `${displayName}:${configBase}`;
+}
+
+/**
+ * Insert a props entry before another environment, or after the last one
+ * (also when the other environment is not in this file)
+ */
+function insertPropsEntry(lines: string[], entry: string, before: string | undefined): string[] {
+  const updated = [...lines];
+  const beforeIndex = before ? findPropsEntryIndex(lines, before) : -1;
+  if (beforeIndex !== -1) {
+    updated.splice(beforeIndex, 0, entry);
+    return updated;
+  }
+
+  const entryIndexes = lines
+    .map((line, index) => !line.trim().startsWith('#') && line.includes(':') ? index : -1)
+    .filter(index => index !== -1);
+  if (entryIndexes.length > 0) {
+    updated.splice(entryIndexes[entryIndexes.length - 1] + 1, 0, entry);
+  } else if (updated.length > 0 && updated[updated.length - 1] === '') {
+    updated.splice(updated.length - 1, 0, entry);
+  } else {
+    updated.push(entry);
+  }
+  return updated;
+}
+
+function insertManifestEntry(entries: EnvironmentManifestEntry[], entry: EnvironmentManifestEntry, before: string | undefined): EnvironmentManifestEntry[] {
+  const updated = [...entries];
+  const index = before ? entries.findIndex(other => other.displayName === before) : -1;
+  updated.splice(index === -1 ? updated.length : index, 0, entry);
+  return updated;
+}
+
+/**
+ * Reason a display name cannot be used, or undefined when it can
+ */
+export function validateEnvironmentName(name: string, environments: EnvironmentConfig[], currentName?: string): string | undefined {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Enter a name';
+  }
+  if (trimmed.includes(':') || trimmed.startsWith('#')) {
+    return 'Names cannot contain \':\' or start with \'#\'';
+  }
+  if (trimmed !== currentName && environments.some(env => env.displayName === trimmed)) {
+    return `An environment named '${trimmed}' already exists`;
+  }
+  return undefined;
+}
+
+/**
+ * Reason a config file base name cannot be used, or undefined when it can
+ */
+export function validateConfigBase(base: string, environments: EnvironmentConfig[]): string | undefined {
+  const trimmed = base.trim().replace(/\.json$/, '');
+  if (!/^[a-zA-Z0-9._-]+$/.test(trimmed)) {
+    return 'Use letters, digits, \'.\', \'_\' and \'-\' only';
+  }
+  if (environments.some(env => getConfigBase(env) === trimmed)) {
+    return `${trimmed}.json is already used by another environment`;
+  }
+  return undefined;
+}
+
+/**
+ * Config file base name for a display name, e.g. "QA East" → "mcp-qa-east"
+ */
+export function suggestConfigBase(displayName: string, environments: EnvironmentConfig[] = []): string {
+  const slug = displayName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'env';
+  return uniqueValue(`mcp-${slug}`, base => environments.some(env => getConfigBase(env) === base), '-');
+}
+
+export function applyEnvironmentSourceEdit(edit: EnvironmentSourceEdit): void {
+  createDefaultEnvironmentPropsIfNeeded();
+
+  if (isManifestActive()) {
+    const manifestPath = getEnvironmentManifestPath();
+    withFileLock(manifestPath, () => {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      manifest.environments = edit.manifest(manifest.environments);
+      writeFileAtomic(manifestPath, JSON.stringify(manifest, null, 2) + '\n', { verifyJson: true });
+    });
+    return;
+  }
+
+  const propsPath = getEnvironmentPropsPath();
+  withFileLock(propsPath, () => {
+    // Missing when every environment so far comes from the shared source
+    const content = fs.existsSync(propsPath) ? fs.readFileSync(propsPath, 'utf-8') : '';
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    writeFileAtomic(propsPath, edit.props(content.split(/\r?\n/)).join(eol));
+  });
+}
+
+function uniqueValue(candidate: string, taken: (value: string) => boolean, separator: string): string {
+  let value = candidate;
+  for (let counter = 2; taken(value); counter++) {
+    value = `${candidate}${separator}${counter}`;
+  }
+  return value;
+}
+
+function getConfigBase(env: EnvironmentConfig): string {
+  return env.configFileName.replace(/\.json$/, '');
+}
+
+/**
+ * Environments declared only by the shared source are read-only here
+ */
+function requireLocalEnvironment(env: EnvironmentConfig, action: string): void {
+  if (env.source === 'shared') {
+    throw new Error(`Cannot ${action} '${env.displayName}': it comes from the shared environment source`);
+  }
+}
+
+/**
+ * The environment and the full list, or an error when it cannot be deleted:
+ * unknown, from the shared source, or the last one
+ */
+function requireDeletableEnvironment(displayName: string): { environments: EnvironmentConfig[]; env: EnvironmentConfig } {
+  const { environments } = loadEnvironmentConfiguration();
+  const env = environments.find(e => e.displayName === displayName);
+  if (!env) {
+    throw new Error(`Unknown environment: ${displayName}`);
+  }
+  requireLocalEnvironment(env, 'delete');
+  if (environments.length === 1) {
+    throw new Error('Cannot delete the only environment');
+  }
+  return { environments, env };
+}
+
+/**
+ * Where the active environment goes when it is deleted: the safest of the
+ * remaining ones, with danger levels as they will be after the deletion
+ */
+export function getDeletionFallback(displayName: string): string {
+  const { environments } = requireDeletableEnvironment(displayName);
+  const remaining = environments
+    .filter(env => env.displayName !== displayName)
+    .map((env, position) => ({ ...env, position }));
+  return getSafestEnvironment(remaining, remaining.length)!;
+}
+
+/**
+ * Config files of other environments that extend or mix in this one's file
+ */
+function findReferencingConfigs(env: EnvironmentConfig, environments: EnvironmentConfig[]): string[] {
+  const configPath = path.resolve(getConfigFilePath(env.displayName));
+  return environments
+    .filter(other => other.displayName !== env.displayName)
+    .map(other => getConfigFilePath(other.displayName))
+    .filter(otherPath => getLayerPaths(otherPath).includes(configPath));
+}
+
+function copyIfExists(sourcePath: string, targetPath: string): void {
+  if (fs.existsSync(sourcePath)) {
+    writeFileAtomic(targetPath, fs.readFileSync(sourcePath, 'utf-8'));
+  }
+}
+
+/**
+ * Write the target atomically, then remove the source, holding the source's
+ * lock so no other window writes it in between
+ */
+function moveIfExists(sourcePath: string, targetPath: string): void {
+  withFileLock(sourcePath, () => {
+    if (fs.existsSync(sourcePath)) {
+      writeFileAtomic(targetPath, fs.readFileSync(sourcePath, 'utf-8'));
+      removeFileLocked(sourcePath);
+    }
+  });
+}
+
+/**
+ * Manifest-only settings of an environment (ignored while the props file is the source)
+ */
+export type EnvironmentMetadata = Omit<EnvironmentManifestEntry, 'displayName' | 'configFile'>;
+
+export interface NewEnvironment {
+  displayName: string;
+  configBase: string;
+  idpUrl?: string;
+  // Insert before this environment; at the end when unset
+  before?: string;
+  // Initial content of the config file; an empty server list when unset
+  config?: ConfigObject;
+  metadata?: EnvironmentMetadata;
+}
+
+/**
+ * Register a new environment and create its config file and, when given, its
+ * IDP URL file. Without initial content, an existing file with that name is kept.
+ */
+export function addEnvironmentConfig(newEnv: NewEnvironment): void {
+  const { environments } = loadEnvironmentConfiguration();
+  const displayName = newEnv.displayName.trim();
+  const configBase = newEnv.configBase.trim().replace(/\.json$/, '');
+  const problem = validateEnvironmentName(displayName, environments) ?? validateConfigBase(configBase, environments);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  applyEnvironmentSourceEdit({
+    props: lines => insertPropsEntry(lines, formatPropsEntry(displayName, configBase), newEnv.before),
+    manifest: entries => insertManifestEntry(entries, { ...newEnv.metadata, displayName, configFile: configBase }, newEnv.before)
+  });
+
+  if (newEnv.config || !fs.existsSync(getConfigFilePath(displayName))) {
+    writeFileAtomic(getLocalConfigFilePath(displayName), JSON.stringify(newEnv.config ?? { mcpServers: {} }, null, 2), { verifyJson: true });
+  }
+  if (newEnv.idpUrl?.trim()) {
+    writeFileAtomic(getLocalIdpUrlFilePath(displayName), newEnv.idpUrl.trim());
+  }
+
+  console.log(`[MCP Server Selector] Added environment '${displayName}' (${configBase}.json)`);
+}
+
+/**
+ * Replace the manifest settings of an environment; a no-op for the props file
+ */
+export function updateEnvironmentMetadata(displayName: string, metadata: EnvironmentMetadata): void {
+  if (!isManifestActive()) {
+    return;
+  }
+  applyEnvironmentSourceEdit({
+    props: lines => lines,
+    manifest: entries => entries.map(entry =>
+      entry.displayName === displayName ? { ...metadata, displayName, configFile: entry.configFile } : entry)
+  });
+}
+
+/**
+ * Whether renaming can also move the config file: it must be a local file no
+ * other environment builds on, and the new file name must be free
+ */
+export function canMoveConfigFiles(displayName: string, newBase: string): boolean {
+  const { environments } = loadEnvironmentConfiguration();
+  const env = environments.find(e => e.displayName === displayName);
+  return !!env
+    && getConfigBase(env) !== newBase
+    && !validateConfigBase(newBase, environments)
+    && fs.existsSync(getLocalConfigFilePath(displayName))
+    && !fs.existsSync(resolveEnvironmentFile(`${newBase}.json`))
+    && findReferencingConfigs(env, environments).length === 0;
+}
+
+/**
+ * Rename an environment, carrying over its server selection, cached
+ * capabilities and temporary session. With newBase, the config and IDP URL
+ * files are moved as well.
+ */
+export function renameEnvironmentConfig(oldName: string, newName: string, newBase?: string): void {
+  const { environments } = loadEnvironmentConfiguration();
+  const env = environments.find(e => e.displayName === oldName);
+  if (!env) {
+    throw new Error(`Unknown environment: ${oldName}`);
+  }
+  requireLocalEnvironment(env, 'rename');
+  const displayName = newName.trim();
+  const problem = validateEnvironmentName(displayName, environments, oldName);
+  if (problem) {
+    throw new Error(problem);
+  }
+  if (newBase && !canMoveConfigFiles(oldName, newBase)) {
+    throw new Error(`Cannot move ${env.configFileName} to ${newBase}.json`);
+  }
+
+  const oldConfigPath = getLocalConfigFilePath(oldName);
+  const oldIdpUrlPath = getLocalIdpUrlFilePath(oldName);
+  const configBase = newBase ?? getConfigBase(env);
+
+  applyEnvironmentSourceEdit({
+    props: lines => lines.map((line, index) =>
+      index === findPropsEntryIndex(lines, oldName) ? formatPropsEntry(displayName, configBase) : line),
+    manifest: entries => entries.map(entry =>
+      entry.displayName === oldName ? { ...entry, displayName, configFile: configBase } : entry)
+  });
+
+  if (newBase) {
+    const envsDir = path.dirname(oldConfigPath);
+    moveIfExists(oldConfigPath, path.join(envsDir, `${newBase}.json`));
+    moveIfExists(oldIdpUrlPath, path.join(envsDir, `${newBase}-idp-url.txt`));
+  }
+
+  const disabled = getDisabledServers(oldName);
+  if (disabled.length > 0) {
+    setDisabledServers(displayName, disabled);
+    setDisabledServers(oldName, []);
+  }
+  renameCachedCapabilities(oldName, displayName);
+  renameTemporarySessionEnvironment(oldName, displayName);
+
+  console.log(`[MCP Server Selector] Renamed environment '${oldName}' to '${displayName}' (${configBase}.json)`);
+}
+
+/**
+ * Move an environment before another one, or to the end. Only the entry line
+ * moves in a props file; comments stay where they are.
+ */
+export function moveEnvironmentConfig(displayName: string, before: string | undefined): void {
+  const { environments } = loadEnvironmentConfiguration();
+  const env = environments.find(e => e.displayName === displayName);
+  if (!env) {
+    throw new Error(`Unknown environment: ${displayName}`);
+  }
+  requireLocalEnvironment(env, 'move');
+  if (before === displayName) {
+    return;
+  }
+
+  applyEnvironmentSourceEdit({
+    props: lines => {
+      const index = findPropsEntryIndex(lines, displayName);
+      const remaining = lines.filter((line, lineIndex) => lineIndex !== index);
+      return insertPropsEntry(remaining, lines[index], before);
+    },
+    manifest: entries => {
+      const entry = entries.find(e => e.displayName === displayName)!;
+      return insertManifestEntry(entries.filter(e => e !== entry), entry, before);
+    }
+  });
+
+  console.log(`[MCP Server Selector] Moved environment '${displayName}' ${before ? `before '${before}'` : 'to the end'}`);
+}
+
+/**
+ * Copy an environment (config, IDP URL and server selection) under a new name.
+ * The copy is placed next to the source, before it when the source is the
+ * last environment so that a position-inferred production level stays put.
+ * Copies of shared environments become local ones at the end of the list.
+ */
+export function duplicateEnvironmentConfig(sourceName: string): string {
+  const { environments, totalCount } = loadEnvironmentConfiguration();
+  const source = environments.find(env => env.displayName === sourceName);
+  if (!source) {
+    throw new Error(`Unknown environment: ${sourceName}`);
+  }
+
+  const envsDir = getLocalEnvsDir();
+  const newName = uniqueValue(`${sourceName} Copy`, name => environments.some(env => env.displayName === name), ' ');
+  const newBase = uniqueValue(`${getConfigBase(source)}-copy`, base =>
+    environments.some(env => getConfigBase(env) === base) || fs.existsSync(resolveEnvironmentFile(`${base}.json`)), '-');
+  const insertBefore = totalCount > 1 && source.position === totalCount - 1;
+
+  applyEnvironmentSourceEdit({
+    props: lines => {
+      const index = findPropsEntryIndex(lines, sourceName);
+      if (index === -1) {
+        return insertPropsEntry(lines, formatPropsEntry(newName, newBase), undefined);
+      }
+      const updated = [...lines];
+      updated.splice(insertBefore ? index : index + 1, 0, formatPropsEntry(newName, newBase));
+      return updated;
+    },
+    manifest: entries => {
+      const index = entries.findIndex(entry => entry.displayName === sourceName);
+      const copy: EnvironmentManifestEntry = {
+        ...entries[index],
+        displayName: newName,
+        configFile: newBase,
+        dangerLevel: resolveDangerLevel(source, totalCount)
+      };
+      const updated = [...entries];
+      updated.splice(index === -1 ? updated.length : insertBefore ? index : index + 1, 0, copy);
+      return updated;
+    }
+  });
+
+  copyIfExists(getConfigFilePath(sourceName), path.join(envsDir, `${newBase}.json`));
+  copyIfExists(getIdpUrlFilePath(sourceName), path.join(envsDir, `${newBase}-idp-url.txt`));
+  const disabled = getDisabledServers(sourceName);
+  if (disabled.length > 0) {
+    setDisabledServers(newName, disabled);
+  }
+
+  console.log(`[MCP Server Selector] Duplicated environment '${sourceName}' as '${newName}' (${newBase}.json)`);
+  return newName;
+}
+
+/**
+ * Remove an environment and its files. Config files that another environment
+ * still extends or mixes in are kept; their paths are returned.
+ */
+export function deleteEnvironmentConfig(displayName: string): string[] {
+  const { environments, env } = requireDeletableEnvironment(displayName);
+
+  const configPath = getLocalConfigFilePath(displayName);
+  const idpUrlPath = getLocalIdpUrlFilePath(displayName);
+  const referencedBy = findReferencingConfigs(env, environments);
+
+  applyEnvironmentSourceEdit({
+    props: lines => lines.filter((line, index) => index !== findPropsEntryIndex(lines, displayName)),
+    manifest: entries => entries.filter(entry => entry.displayName !== displayName)
+  });
+
+  const keptFiles = referencedBy.length > 0 ? [configPath] : [];
+  if (referencedBy.length === 0) {
+    removeFileLocked(configPath);
+  }
+  removeFileLocked(idpUrlPath);
+  setDisabledServers(displayName, []);
+  renameCachedCapabilities(displayName);
+
+  console.log(`[MCP Server Selector] Deleted environment '${displayName}'`);
+  return keptFiles;
+}
+
+async function pickEnvironment(placeHolder: string): Promise<string | undefined> {
+  const pick = await vscode.window.showQuickPick(
+    loadEnvironmentConfiguration().environments.map(env => ({ label: `${getEnvironmentIcon(env.displayName)} ${env.displayName}`, env: env.displayName })),
+    { placeHolder }
+  );
+  return pick?.env;
+}
+
+/**
+ * Pick where an environment goes. Returns the environment to insert before,
+ * null for the end, or undefined when cancelled.
+ */
+async function pickPosition(placeHolder: string, moving?: string): Promise<string | null | undefined> {
+  // Shared environments keep the order the shared source gives them
+  const others = loadEnvironmentConfiguration().environments.filter(env => env.displayName !== moving && env.source !== 'shared');
+  const pick = await vscode.window.showQuickPick(
+    [
+      ...others.map(env => ({ label: `Before ${getEnvironmentIcon(env.displayName)} ${env.displayName}`, before: env.displayName as string | null })),
+      { label: '$(arrow-down) At the end', description: 'The last environment is treated as production unless its level is set', before: null }
+    ],
+    { placeHolder }
+  );
+  return pick ? pick.before : undefined;
+}
+
+function showEditorError(handler: string, action: string, error: unknown): void {
+  console.error(`[MCP Selector] Error in ${handler}:`, error);
+  vscode.window.showErrorMessage(`Error ${action}: ${error instanceof Error ? error.message : error}`);
+}
+
+/**
+ * Ask for the name, config file, position and IDP URL of a new environment.
+ * Returns undefined when any step is cancelled.
+ */
+export async function promptNewEnvironment(defaults: { displayName?: string; idpUrl?: string } = {}): Promise<NewEnvironment | undefined> {
+  const { environments } = loadEnvironmentConfiguration();
+  const input = await vscode.window.showInputBox({
+    prompt: 'Name of the new MCP environment',
+    placeHolder: 'e.g. Staging',
+    value: defaults.displayName,
+    validateInput: value => validateEnvironmentName(value, environments)
+  });
+  if (input === undefined) {
+    return undefined;
+  }
+  const displayName = input.trim();
+
+  const configBase = await vscode.window.showInputBox({
+    prompt: 'Config file name (in the envs folder, without .json)',
+    value: suggestConfigBase(displayName, environments),
+    validateInput: value => validateConfigBase(value, environments)
+  });
+  if (configBase === undefined) {
+    return undefined;
+  }
+
+  const before = await pickPosition(`Where should ${displayName} go?`);
+  if (before === undefined) {
+    return undefined;
+  }
+
+  const idpUrl = await vscode.window.showInputBox({
+    prompt: 'IDP URL for token refresh (optional)',
+    placeHolder: 'Leave empty if this environment does not use token refresh',
+    value: defaults.idpUrl
+  });
+  if (idpUrl === undefined) {
+    return undefined;
+  }
+
+  return { displayName, configBase, idpUrl, before: before ?? undefined };
+}
+
+export async function addEnvironment(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const newEnv = await promptNewEnvironment();
+    if (!newEnv) {
+      return;
+    }
+
+    addEnvironmentConfig(newEnv);
+    updateStatusBarEnvironment(context);
+    const action = await vscode.window.showInformationMessage(`Added MCP environment ${newEnv.displayName}`, 'Open Config');
+    if (action === 'Open Config') {
+      await vscode.window.showTextDocument(vscode.Uri.file(getConfigFilePath(newEnv.displayName)));
+    }
+  } catch (error) {
+    showEditorError('addEnvironment', 'adding environment', error);
+  }
+}
+
+/**
+ * Rename, optionally moving the files to match. When the active environment
+ * is renamed, mcpCurrentEnv follows and the config is re-applied under the
+ * new name (it may use ${envName}).
+ */
+export async function renameEnvironment(context: vscode.ExtensionContext, displayName?: string): Promise<void> {
+  try {
+    const oldName = displayName ?? await pickEnvironment('Rename which MCP environment?');
+    if (!oldName) {
+      return;
+    }
+
+    const { environments } = loadEnvironmentConfiguration();
+    const input = await vscode.window.showInputBox({
+      prompt: `New name for ${oldName}`,
+      value: oldName,
+      validateInput: value => validateEnvironmentName(value, environments, oldName)
+    });
+    const newName = input?.trim();
+    if (!newName || newName === oldName) {
+      return;
+    }
+
+    let newBase: string | undefined;
+    const suggestedBase = suggestConfigBase(newName, environments.filter(env => env.displayName !== oldName));
+    if (canMoveConfigFiles(oldName, suggestedBase)) {
+      const oldBase = getConfigBase(environments.find(env => env.displayName === oldName)!);
+      const pick = await vscode.window.showQuickPick(
+        [{ label: `Rename files to ${suggestedBase}.json`, move: true }, { label: `Keep ${oldBase}.json`, move: false }],
+        { placeHolder: 'Rename the config and IDP URL files too?' }
+      );
+      if (!pick) {
+        return;
+      }
+      newBase = pick.move ? suggestedBase : undefined;
+    }
+
+    const wasActive = getCurrentEnvironment(context) === oldName;
+    renameEnvironmentConfig(oldName, newName, newBase);
+    if (wasActive) {
+      await context.workspaceState.update('mcpCurrentEnv', newName);
+      await switchToEnvironment(context, newName);
+    }
+
+    updateStatusBarEnvironment(context);
+    vscode.window.showInformationMessage(`Renamed MCP environment ${oldName} to ${newName}`);
+  } catch (error) {
+    if (error instanceof SwitchCancelledError) {
+      updateStatusBarEnvironment(context);
+      vscode.window.showInformationMessage(error.message);
+      return;
+    }
+    showEditorError('renameEnvironment', 'renaming environment', error);
+  }
+}
+
+export async function duplicateEnvironment(context: vscode.ExtensionContext, sourceName?: string): Promise<void> {
+  try {
+    const source = sourceName ?? await pickEnvironment('Duplicate which MCP environment?');
+    if (!source) {
+      return;
+    }
+    const newName = duplicateEnvironmentConfig(source);
+    updateStatusBarEnvironment(context);
+    vscode.window.showInformationMessage(`Duplicated MCP environment ${source} as ${newName}`);
+  } catch (error) {
+    showEditorError('duplicateEnvironment', 'duplicating environment', error);
+  }
+}
+
+/**
+ * Delete after confirmation. Deleting the active environment first switches
+ * to the safest remaining one, so mcpCurrentEnv never points at a missing
+ * environment; if that switch is declined or fails, nothing is deleted.
+ */
+export async function deleteEnvironment(context: vscode.ExtensionContext, displayName?: string): Promise<void> {
+  const target = displayName ?? await pickEnvironment('Delete which MCP environment?');
+  if (!target) {
+    return;
+  }
+
+  let fallback: string;
+  try {
+    fallback = getDeletionFallback(target);
+  } catch (error) {
+    showEditorError('deleteEnvironment', 'deleting environment', error);
+    return;
+  }
+
+  const wasActive = getCurrentEnvironment(context) === target;
+  const confirm = await vscode.window.showWarningMessage(
+    `Delete MCP environment '${target}' together with its config and IDP URL files?${wasActive ? ` MCP switches to '${fallback}' first.` : ''}`,
+    { modal: true },
+    'Delete'
+  );
+  if (confirm !== 'Delete') {
+    return;
+  }
+
+  try {
+    if (wasActive && !(await switchToEnvironment(context, fallback))) {
+      vscode.window.showErrorMessage(`Could not switch MCP to '${fallback}', so '${target}' was not deleted`);
+      return;
+    }
+
+    const keptFiles = deleteEnvironmentConfig(target);
+    if (keptFiles.length > 0) {
+      vscode.window.showInformationMessage(`Kept ${keptFiles.join(', ')} because other environments build on it`);
+    }
+
+    updateStatusBarEnvironment(context);
+    vscode.window.showInformationMessage(`Deleted MCP environment ${target}`);
+  } catch (error) {
+    if (error instanceof SwitchCancelledError) {
+      vscode.window.showInformationMessage(`${error.message}; '${target}' was not deleted`);
+      return;
+    }
+    showEditorError('deleteEnvironment', 'deleting environment', error);
+  }
+}
+
+/**
+ * Move one environment per run. Position decides the inferred danger level,
+ * so the status bar is refreshed afterwards.
+ */
+export async function reorderEnvironments(context: vscode.ExtensionContext, displayName?: string): Promise<void> {
+  try {
+    const target = displayName ?? await pickEnvironment('Move which MCP environment?');
+    if (!target) {
+      return;
+    }
+    const before = await pickPosition(`Move ${target} to...`, target);
+    if (before === undefined) {
+      return;
+    }
+
+    moveEnvironmentConfig(target, before ?? undefined);
+    updateStatusBarEnvironment(context);
+  } catch (error) {
+    showEditorError('reorderEnvironments', 'moving environment', error);
+  }
+}
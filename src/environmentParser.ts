@@ -1,11 +1,74 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import { writeFileAtomic } from './atomicWrite';
+import { getUserHome } from './userHome';
+
+export type DangerLevel = 'safe' | 'staging' | 'production';
+
+export const DANGER_LEVELS: DangerLevel[] = ['safe', 'staging', 'production'];
+
+/**
+ * What a switch into the environment requires: nothing, a modal confirmation,
+ * or typing the environment name
+ */
+export type SwitchGuardPolicy = 'none' | 'confirm' | 'typed';
+
+export const SWITCH_GUARD_POLICIES: SwitchGuardPolicy[] = ['none', 'confirm', 'typed'];
+
+/**
+ * Where an environment is declared once a shared team source is configured
+ */
+export type EnvironmentSource = 'local' | 'shared';
+
+/**
+ * TLS settings for an environment's IDP URL: a CA bundle to trust and an
+ * optional client certificate. Values are interpolated like configs, and
+ * relative paths are resolved against the environment's config file.
+ */
+export interface IdpTlsSettings {
+  ca?: string;
+  cert?: string;
+  key?: string;
+  passphrase?: string; // Usually ${secret:name}
+}
+
+const IDP_TLS_FIELDS: (keyof IdpTlsSettings)[] = ['ca', 'cert', 'key', 'passphrase'];
 
 export interface EnvironmentConfig {
   displayName: string;
   configFileName: string;
   position: number; // 0-based index for color/icon assignment
+  source?: EnvironmentSource; // Only set when a shared source is configured
+  overridesShared?: boolean;  // A local entry that replaces a shared one of the same name
+  description?: string;
+  dangerLevel?: DangerLevel;
+  color?: string;   // Explicit status bar color, e.g. '#4caf50'
+  icon?: string;    // Codicon name, e.g. 'rocket' or '$(rocket)'
+  tags?: string[];
+  owner?: string;
+  switchGuard?: SwitchGuardPolicy;
+  idpTls?: IdpTlsSettings;
+}
+
+/**
+ * A single entry of mcp-environments.json
+ */
+export interface EnvironmentManifestEntry {
+  displayName: string;
+  configFile: string;
+  description?: string;
+  dangerLevel?: DangerLevel;
+  color?: string;
+  icon?: string;
+  tags?: string[];
+  owner?: string;
+  switchGuard?: SwitchGuardPolicy;
+  idpTls?: IdpTlsSettings;
+}
+
+export interface EnvironmentManifest {
+  version: number;
+  environments: EnvironmentManifestEntry[];
 }
 
 export interface EnvironmentCollection {
@@ -33,12 +96,56 @@ Local:mcp-local
 Dev:mcp-dev
 Prod:mcp-prod`;
 
+export const ENVIRONMENT_MANIFEST_VERSION = 1;
+
+// Team-wide environments (props or manifest plus envs/), layered under the local ones
+let sharedSourceDir: string | undefined;
+
+export function setSharedSourceDir(dir: string | undefined): void {
+  sharedSourceDir = dir;
+}
+
+export function getSharedSourceDir(): string | undefined {
+  return sharedSourceDir;
+}
+
+export function getLocalEnvsDir(): string {
+  return path.join(getUserHome(), '.cursor', 'mcp-selector', 'envs');
+}
+
+/**
+ * Path of a file in envs/: the local copy when there is one, else the shared
+ * source's copy, else the local path (where it would be created)
+ */
+export function resolveEnvironmentFile(fileName: string): string {
+  const localPath = path.join(getLocalEnvsDir(), fileName);
+  if (fs.existsSync(localPath) || !sharedSourceDir) {
+    return localPath;
+  }
+  const sharedPath = path.join(sharedSourceDir, 'envs', fileName);
+  return fs.existsSync(sharedPath) ? sharedPath : localPath;
+}
+
 export function getEnvironmentPropsPath(): string {
-  const home = os.homedir();
+  const home = getUserHome();
   const mcpDir = path.join(home, '.cursor', 'mcp-selector');
   return path.join(mcpDir, 'mcp-environments.props');
 }
 
+export function getEnvironmentManifestPath(): string {
+  const home = getUserHome();
+  const mcpDir = path.join(home, '.cursor', 'mcp-selector');
+  return path.join(mcpDir, 'mcp-environments.json');
+}
+
+/**
+ * The JSON manifest takes precedence over the props file when both exist
+ */
+export function getActiveEnvironmentSourcePath(): string {
+  const manifestPath = getEnvironmentManifestPath();
+  return fs.existsSync(manifestPath) ? manifestPath : getEnvironmentPropsPath();
+}
+
 export function createDefaultEnvironmentProps(): void {
   const propsPath = getEnvironmentPropsPath();
   const dir = path.dirname(propsPath);
@@ -54,11 +161,15 @@ export function createDefaultEnvironmentProps(): void {
 
 export function createDefaultEnvironmentPropsIfNeeded(): void {
   const propsPath = getEnvironmentPropsPath();
-  if (!fs.existsSync(propsPath)) {
+  if (!fs.existsSync(propsPath) && !fs.existsSync(getEnvironmentManifestPath()) && !hasSharedEnvironments()) {
     createDefaultEnvironmentProps();
   }
 }
 
+function normalizeConfigFileName(baseConfigFileName: string): string {
+  return baseConfigFileName.endsWith('.json') ? baseConfigFileName : baseConfigFileName + '.json';
+}
+
 export function parseEnvironmentProps(propsContent: string): EnvironmentCollection {
   const environments: EnvironmentConfig[] = [];
   
@@ -78,7 +189,7 @@ export function parseEnvironmentProps(propsContent: string): EnvironmentCollecti
     const displayName = line.substring(0, colonIndex).trim();
     const baseConfigFileName = line.substring(colonIndex + 1).trim();
     // Only add .json extension if it doesn't already end with .json
-    const configFileName = baseConfigFileName.endsWith('.json') ? baseConfigFileName : baseConfigFileName + '.json';
+    const configFileName = normalizeConfigFileName(baseConfigFileName);
     
     if (displayName && baseConfigFileName) {
       environments.push({
@@ -124,7 +235,7 @@ export function validateEnvironmentProps(content: string): ValidationResult {
     const displayName = line.substring(0, colonIndex).trim();
     const baseConfigFile = line.substring(colonIndex + 1).trim();
     // Normalize config file name (add .json if not present)
-    const configFile = baseConfigFile.endsWith('.json') ? baseConfigFile : baseConfigFile + '.json';
+    const configFile = normalizeConfigFileName(baseConfigFile);
     
     // Validate display name
     if (!displayName) {
@@ -161,6 +272,224 @@ export function validateEnvironmentProps(content: string): ValidationResult {
   };
 }
 
+export function parseEnvironmentManifest(manifestContent: string): EnvironmentCollection {
+  let manifest: EnvironmentManifest;
+  try {
+    manifest = JSON.parse(manifestContent);
+  } catch (error) {
+    throw new EnvironmentConfigError('Invalid environment manifest', [`Malformed JSON: ${error}`]);
+  }
+  
+  const entries = Array.isArray(manifest?.environments) ? manifest.environments : [];
+  const environments: EnvironmentConfig[] = [];
+  
+  entries.forEach(entry => {
+    const displayName = typeof entry?.displayName === 'string' ? entry.displayName.trim() : '';
+    const baseConfigFileName = typeof entry?.configFile === 'string' ? entry.configFile.trim() : '';
+    
+    if (!displayName || !baseConfigFileName) {
+      // Skip incomplete entries (validation will catch these)
+      return;
+    }
+    
+    environments.push({
+      displayName,
+      configFileName: normalizeConfigFileName(baseConfigFileName),
+      position: environments.length,
+      description: entry.description,
+      dangerLevel: entry.dangerLevel,
+      color: entry.color,
+      icon: entry.icon,
+      tags: entry.tags,
+      owner: entry.owner,
+      switchGuard: entry.switchGuard,
+      idpTls: entry.idpTls
+    });
+  });
+  
+  return {
+    environments,
+    totalCount: environments.length
+  };
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function validateEnvironmentManifest(content: string): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(content);
+  } catch (error) {
+    errors.push(`Malformed JSON: ${error}`);
+    return { isValid: false, errors, warnings };
+  }
+  
+  if (!isJsonObject(manifest) || !Array.isArray(manifest.environments)) {
+    errors.push(`Manifest must contain an 'environments' array`);
+    return { isValid: false, errors, warnings };
+  }
+  
+  if (manifest.version !== undefined && manifest.version !== ENVIRONMENT_MANIFEST_VERSION) {
+    warnings.push(`Unknown manifest version '${manifest.version}', expected ${ENVIRONMENT_MANIFEST_VERSION}`);
+  }
+  
+  const entries: unknown[] = manifest.environments;
+  if (entries.length === 0) {
+    errors.push('No environments defined');
+    return { isValid: false, errors, warnings };
+  }
+  
+  const displayNames = new Set<string>();
+  const configFiles = new Set<string>();
+  
+  entries.forEach((entry, index) => {
+    const label = `Environment ${index + 1}`;
+    
+    if (!isJsonObject(entry)) {
+      errors.push(`${label}: Expected an object`);
+      return;
+    }
+    
+    const displayName = typeof entry.displayName === 'string' ? entry.displayName.trim() : '';
+    const baseConfigFile = typeof entry.configFile === 'string' ? entry.configFile.trim() : '';
+    
+    if (!displayName) {
+      errors.push(`${label}: Empty display name`);
+    } else if (displayNames.has(displayName)) {
+      errors.push(`${label}: Duplicate display name '${displayName}'`);
+    } else {
+      displayNames.add(displayName);
+    }
+    
+    if (!baseConfigFile) {
+      errors.push(`${label}: Empty config file name`);
+    } else {
+      const configFile = normalizeConfigFileName(baseConfigFile);
+      if (configFiles.has(configFile)) {
+        errors.push(`${label}: Duplicate config file '${configFile}'`);
+      } else {
+        configFiles.add(configFile);
+      }
+      
+      if (!/^[a-zA-Z0-9._-]+\.json$/.test(configFile)) {
+        warnings.push(`${label}: Config file '${configFile}' contains unusual characters`);
+      }
+    }
+    
+    if (entry.dangerLevel !== undefined && !DANGER_LEVELS.includes(entry.dangerLevel as DangerLevel)) {
+      errors.push(`${label}: Invalid danger level '${entry.dangerLevel}', expected one of ${DANGER_LEVELS.join(', ')}`);
+    }
+    
+    if (entry.switchGuard !== undefined && !SWITCH_GUARD_POLICIES.includes(entry.switchGuard as SwitchGuardPolicy)) {
+      errors.push(`${label}: Invalid switch guard '${entry.switchGuard}', expected one of ${SWITCH_GUARD_POLICIES.join(', ')}`);
+    }
+    
+    if (entry.color !== undefined && (typeof entry.color !== 'string' || !/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(entry.color))) {
+      warnings.push(`${label}: Color '${entry.color}' is not a hex color`);
+    }
+    
+    if (entry.icon !== undefined && typeof entry.icon !== 'string') {
+      errors.push(`${label}: Icon must be a codicon name`);
+    }
+    
+    if (entry.tags !== undefined && (!Array.isArray(entry.tags) || entry.tags.some((tag: unknown) => typeof tag !== 'string'))) {
+      errors.push(`${label}: Tags must be an array of strings`);
+    }
+    
+    if (entry.idpTls !== undefined) {
+      const idpTls = entry.idpTls;
+      if (!isJsonObject(idpTls)) {
+        errors.push(`${label}: idpTls must be an object`);
+      } else {
+        Object.keys(idpTls).forEach(key => {
+          if (!IDP_TLS_FIELDS.includes(key as keyof IdpTlsSettings)) {
+            warnings.push(`${label}: Unknown idpTls setting '${key}'`);
+          } else if (typeof idpTls[key] !== 'string') {
+            errors.push(`${label}: idpTls.${key} must be a string`);
+          }
+        });
+        if (!idpTls.cert !== !idpTls.key) {
+          errors.push(`${label}: idpTls needs both cert and key for a client certificate`);
+        }
+      }
+    }
+    
+    if (displayName && displayName.length > 50) {
+      warnings.push(`${label}: Display name '${displayName}' is quite long (${displayName.length} characters)`);
+    }
+  });
+  
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Resolve the danger level of an environment, inferring it from the
+ * list position when the manifest does not declare one explicitly
+ */
+export function resolveDangerLevel(env: EnvironmentConfig, totalCount: number): DangerLevel {
+  if (env.dangerLevel) {return env.dangerLevel;}
+  
+  if (totalCount === 1) {return 'safe';}
+  if (env.position === 0) {return 'safe';}
+  if (env.position === totalCount - 1) {return 'production';}
+  return 'staging';
+}
+
+/**
+ * Convert props file content to an equivalent JSON manifest
+ */
+export function convertPropsToManifest(propsContent: string): EnvironmentManifest {
+  const { environments, totalCount } = parseEnvironmentProps(propsContent);
+  
+  return {
+    version: ENVIRONMENT_MANIFEST_VERSION,
+    environments: environments.map(env => ({
+      displayName: env.displayName,
+      configFile: env.configFileName.replace(/\.json$/, ''),
+      dangerLevel: resolveDangerLevel(env, totalCount)
+    }))
+  };
+}
+
+/**
+ * Upgrade mcp-environments.props to mcp-environments.json.
+ * The props file is kept as mcp-environments.props.bak.
+ */
+export function upgradeEnvironmentPropsToManifest(): string {
+  const propsPath = getEnvironmentPropsPath();
+  const manifestPath = getEnvironmentManifestPath();
+  
+  if (fs.existsSync(manifestPath)) {
+    throw new EnvironmentConfigError('Environment manifest already exists', [manifestPath]);
+  }
+  
+  if (!fs.existsSync(propsPath)) {
+    throw new EnvironmentConfigError('Props file not found', [propsPath]);
+  }
+  
+  const propsContent = fs.readFileSync(propsPath, 'utf-8');
+  const validation = validateEnvironmentProps(propsContent);
+  if (!validation.isValid) {
+    throw new EnvironmentConfigError('Props file is invalid', validation.errors);
+  }
+  
+  const manifest = convertPropsToManifest(propsContent);
+  writeFileAtomic(manifestPath, JSON.stringify(manifest, null, 2) + '\n', { verifyJson: true });
+  fs.renameSync(propsPath, propsPath + '.bak');
+  
+  console.log(`[MCP Selector] Upgraded ${propsPath} to ${manifestPath}`);
+  return manifestPath;
+}
+
 export function validateEnvironmentConfig(config: EnvironmentConfig[]): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -188,8 +517,7 @@ export function validateEnvironmentConfig(config: EnvironmentConfig[]): Validati
     }
     
     // Validate file existence
-    const mcpDir = path.join(os.homedir(), '.cursor', 'mcp-selector', 'envs');
-    const configPath = path.join(mcpDir, env.configFileName);
+    const configPath = resolveEnvironmentFile(env.configFileName);
     if (!fs.existsSync(configPath)) {
       warnings.push(`Config file not found: '${env.configFileName}' at ${configPath}`);
     }
@@ -202,11 +530,86 @@ export function validateEnvironmentConfig(config: EnvironmentConfig[]): Validati
   };
 }
 
-export function loadEnvironmentConfiguration(): EnvironmentCollection {
+/**
+ * Load the environments of a shared source directory, or undefined when it
+ * has no valid manifest or props file
+ */
+export function loadEnvironmentSourceDir(dir: string): EnvironmentCollection | undefined {
+  try {
+    const manifestPath = path.join(dir, path.basename(getEnvironmentManifestPath()));
+    if (fs.existsSync(manifestPath)) {
+      const manifestContent = fs.readFileSync(manifestPath, 'utf-8');
+      if (validateEnvironmentManifest(manifestContent).isValid) {
+        return parseEnvironmentManifest(manifestContent);
+      }
+      console.error(`[MCP Selector] Shared manifest is invalid: ${manifestPath}`);
+    }
+
+    const propsPath = path.join(dir, path.basename(getEnvironmentPropsPath()));
+    if (fs.existsSync(propsPath)) {
+      const content = fs.readFileSync(propsPath, 'utf-8');
+      if (validateEnvironmentProps(content).isValid) {
+        return parseEnvironmentProps(content);
+      }
+      console.error(`[MCP Selector] Shared props file is invalid: ${propsPath}`);
+    }
+  } catch (error) {
+    console.error(`[MCP Selector] Failed to load shared environments from ${dir}:`, error);
+  }
+  return undefined;
+}
+
+function hasSharedEnvironments(): boolean {
+  return !!sharedSourceDir && (loadEnvironmentSourceDir(sharedSourceDir)?.totalCount ?? 0) > 0;
+}
+
+/**
+ * Layer the local environments over the shared ones: a local entry replaces
+ * the shared entry of the same name in place, local-only entries follow.
+ * Danger levels are resolved within each list first, so merging does not
+ * change what position implies.
+ */
+export function mergeEnvironmentCollections(shared: EnvironmentCollection, local: EnvironmentCollection): EnvironmentCollection {
+  const pin = (collection: EnvironmentCollection, source: EnvironmentSource): EnvironmentConfig[] =>
+    collection.environments.map(env => ({ ...env, dangerLevel: resolveDangerLevel(env, collection.totalCount), source }));
+  const localEnvs = pin(local, 'local');
+
+  const merged = [
+    ...pin(shared, 'shared').map(sharedEnv => {
+      const override = localEnvs.find(env => env.displayName === sharedEnv.displayName);
+      return override ? { ...override, overridesShared: true } : sharedEnv;
+    }),
+    ...localEnvs.filter(env => !shared.environments.some(sharedEnv => sharedEnv.displayName === env.displayName))
+  ].map((env, position) => ({ ...env, position }));
+
+  return { environments: merged, totalCount: merged.length };
+}
+
+function loadLocalEnvironmentConfiguration(): EnvironmentCollection {
   try {
+    const manifestPath = getEnvironmentManifestPath();
+    
+    if (fs.existsSync(manifestPath)) {
+      const manifestContent = fs.readFileSync(manifestPath, 'utf-8');
+      const manifestValidation = validateEnvironmentManifest(manifestContent);
+      
+      if (manifestValidation.isValid) {
+        if (manifestValidation.warnings.length > 0) {
+          console.warn('[MCP Selector] Manifest file warnings:', manifestValidation.warnings);
+        }
+        return parseEnvironmentManifest(manifestContent);
+      }
+      
+      console.error('[MCP Selector] Manifest file is invalid, falling back to props file:', manifestValidation.errors);
+    }
+    
     const propsPath = getEnvironmentPropsPath();
     
     if (!fs.existsSync(propsPath)) {
+      // With a shared source, local environments are optional
+      if (hasSharedEnvironments()) {
+        return { environments: [], totalCount: 0 };
+      }
       console.log('[MCP Selector] Props file not found, creating default');
       createDefaultEnvironmentProps();
     }
@@ -226,11 +629,17 @@ export function loadEnvironmentConfiguration(): EnvironmentCollection {
   }
 }
 
+export function loadEnvironmentConfiguration(): EnvironmentCollection {
+  const local = loadLocalEnvironmentConfiguration();
+  const shared = sharedSourceDir ? loadEnvironmentSourceDir(sharedSourceDir) : undefined;
+  return shared ? mergeEnvironmentCollections(shared, local) : local;
+}
+
 // Backward compatibility detection
 export function detectLegacyConfiguration(): boolean {
   // Check if user has existing mcp-local.json, mcp-dev.json, mcp-prod.json
   const legacyFiles = ['mcp-local.json', 'mcp-dev.json', 'mcp-prod.json'];
-  const mcpDir = path.join(os.homedir(), '.cursor', 'mcp-selector', 'envs');
+  const mcpDir = path.join(getUserHome(), '.cursor', 'mcp-selector', 'envs');
   
   return legacyFiles.some(file => 
     fs.existsSync(path.join(mcpDir, file))
@@ -238,7 +647,7 @@ export function detectLegacyConfiguration(): boolean {
 }
 
 export function migrateLegacyConfiguration(): void {
-  if (detectLegacyConfiguration() && !fs.existsSync(getEnvironmentPropsPath())) {
+  if (detectLegacyConfiguration() && !fs.existsSync(getEnvironmentPropsPath()) && !fs.existsSync(getEnvironmentManifestPath())) {
     // Create default props file that matches legacy setup
     createDefaultEnvironmentProps();
     console.log('[MCP Selector] Created mcp-environments.props for existing configuration');
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getAllEnvironments, getConfigFilePath, getCurrentEnvironment } from './environmentConfig';
+import { loadEnvironmentConfiguration, resolveDangerLevel, getActiveEnvironmentSourcePath, getEnvironmentPropsPath } from './environmentParser';
+import { renderConfigFile, ConfigObject } from './configRenderer';
+import { getDisabledServers } from './serverSelection';
+import { getCachedCapabilities, showServerCapabilities } from './serverCapabilities';
+import { getEnvironmentColor } from './statusBar';
+import { selectEnvironment } from './mcpSelector';
+import { renameEnvironment, duplicateEnvironment, deleteEnvironment } from './environmentEditor';
+import { checkServerHealth } from './healthCheck';
+
+/**
+ * Activity bar tree: environments → servers (from each env file) → tools
+ * (from the capability cache)
+ */
+
+export type EnvironmentTreeNode =
+  | { kind: 'environment'; envName: string }
+  | { kind: 'server'; envName: string; serverName: string; server: ConfigObject }
+  | { kind: 'tool'; envName: string; serverName: string; toolName: string; description?: string }
+  | { kind: 'message'; envName: string; label: string; command?: vscode.Command };
+
+const HEX_COLOR = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+export class EnvironmentTreeProvider implements vscode.TreeDataProvider<EnvironmentTreeNode> {
+  private changeEmitter = new vscode.EventEmitter<EnvironmentTreeNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getChildren(node?: EnvironmentTreeNode): EnvironmentTreeNode[] {
+    if (!node) {
+      return getAllEnvironments().map(envName => ({ kind: 'environment', envName }));
+    }
+
+    if (node.kind === 'environment') {
+      let servers: ConfigObject;
+      try {
+        servers = renderConfigFile(getConfigFilePath(node.envName)).mcpServers || {};
+      } catch (error) {
+        return [{ kind: 'message', envName: node.envName, label: `Cannot read config: ${error instanceof Error ? error.message : error}` }];
+      }
+      const serverNodes: EnvironmentTreeNode[] = Object.keys(servers).map(serverName =>
+        ({ kind: 'server', envName: node.envName, serverName, server: servers[serverName] }));
+      return serverNodes.length > 0 ? serverNodes : [{ kind: 'message', envName: node.envName, label: 'No servers' }];
+    }
+
+    if (node.kind === 'server') {
+      const listing = getCachedCapabilities(node.envName)?.servers.find(server => server.serverName === node.serverName);
+      if (!listing) {
+        return [{
+          kind: 'message',
+          envName: node.envName,
+          label: 'List tools...',
+          command: { title: 'List Tools', command: 'mcp-server-selector.tree.listTools', arguments: [node] }
+        }];
+      }
+      if (listing.error) {
+        return [{ kind: 'message', envName: node.envName, label: `Could not list tools: ${listing.error}` }];
+      }
+      const toolNodes: EnvironmentTreeNode[] = listing.tools.map(tool =>
+        ({ kind: 'tool', envName: node.envName, serverName: node.serverName, toolName: tool.name, description: tool.description }));
+      return toolNodes.length > 0 ? toolNodes : [{ kind: 'message', envName: node.envName, label: 'No tools' }];
+    }
+
+    return [];
+  }
+
+  getTreeItem(node: EnvironmentTreeNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'environment':
+        return this.getEnvironmentItem(node.envName);
+      case 'server': {
+        const disabled = getDisabledServers(node.envName).includes(node.serverName);
+        const item = new vscode.TreeItem(node.serverName, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = [
+          disabled ? 'disabled' : undefined,
+          node.server.url || [node.server.command, ...(node.server.args || [])].filter(part => part).join(' ')
+        ].filter(part => part).join(' · ');
+        item.iconPath = new vscode.ThemeIcon(disabled ? 'circle-slash' : node.server.url ? 'globe' : 'terminal');
+        item.contextValue = 'server';
+        return item;
+      }
+      case 'tool': {
+        const item = new vscode.TreeItem(node.toolName, vscode.TreeItemCollapsibleState.None);
+        item.description = node.description;
+        item.tooltip = node.description;
+        item.iconPath = new vscode.ThemeIcon('tools');
+        item.contextValue = 'tool';
+        return item;
+      }
+      case 'message': {
+        const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+        item.command = node.command;
+        item.contextValue = 'message';
+        return item;
+      }
+    }
+  }
+
+  private getEnvironmentItem(envName: string): vscode.TreeItem {
+    const { environments, totalCount } = loadEnvironmentConfiguration();
+    const env = environments.find(e => e.displayName === envName);
+    const active = getCurrentEnvironment(this.context) === envName;
+
+    const item = new vscode.TreeItem(envName, vscode.TreeItemCollapsibleState.Collapsed);
+    const source = env?.source === 'shared' ? 'shared' : env?.overridesShared ? 'local override' : undefined;
+    item.description = [active ? '● active' : undefined, env ? resolveDangerLevel(env, totalCount) : undefined, source]
+      .filter(part => part).join(' · ');
+    item.tooltip = [envName, env?.description, env?.owner ? `Owner: ${env.owner}` : undefined, `Source: ${getConfigFilePath(envName)}`]
+      .filter(line => line).join('\n');
+    item.iconPath = this.getColorIcon(getEnvironmentColor(envName), active);
+    // Shared environments cannot be renamed or deleted here
+    item.contextValue = `${active ? 'environment.active' : 'environment'}${env?.source === 'shared' ? '.shared' : ''}`;
+    return item;
+  }
+
+  /**
+   * Tree icons cannot take arbitrary colors, so the danger color is baked into a small SVG
+   */
+  private getColorIcon(color: string, filled: boolean): vscode.Uri | vscode.ThemeIcon {
+    if (!HEX_COLOR.test(color)) {
+      return new vscode.ThemeIcon(filled ? 'circle-filled' : 'circle-outline');
+    }
+
+    const iconDir = path.join(this.context.globalStorageUri.fsPath, 'icons');
+    const iconPath = path.join(iconDir, `env-${color.slice(1).toLowerCase()}-${filled ? 'filled' : 'outline'}.svg`);
+    if (!fs.existsSync(iconPath)) {
+      fs.mkdirSync(iconDir, { recursive: true });
+      const circle = filled
+        ? `<circle cx="8" cy="8" r="5" fill="${color}"/>`
+        : `<circle cx="8" cy="8" r="4.5" fill="none" stroke="${color}" stroke-width="2"/>`;
+      fs.writeFileSync(iconPath, `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16">${circle}</svg>`);
+    }
+    return vscode.Uri.file(iconPath);
+  }
+}
+
+let treeProvider: EnvironmentTreeProvider | undefined;
+let refreshTimer: NodeJS.Timeout | undefined;
+
+const WATCHED_STATE_FILES = [
+  'mcp-environments.props',
+  'mcp-environments.json',
+  'active-environment.json',
+  'disabled-servers.json',
+  'server-capabilities.json'
+];
+
+export function refreshEnvironmentTree(): void {
+  treeProvider?.refresh();
+}
+
+/**
+ * Refresh once a burst of file events (atomic writes, several windows) settles
+ */
+function scheduleRefresh(): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+  }
+  refreshTimer = setTimeout(() => {
+    refreshTimer = undefined;
+    refreshEnvironmentTree();
+  }, 200);
+}
+
+/**
+ * Watch the selector directory and the environment files. Directories are
+ * watched rather than files because atomic writes replace the file.
+ */
+function watchTreeSources(context: vscode.ExtensionContext): void {
+  const selectorDir = path.dirname(getEnvironmentPropsPath());
+  const envsDir = path.join(selectorDir, 'envs');
+  const watches: [string, (fileName: string) => boolean][] = [
+    [selectorDir, fileName => WATCHED_STATE_FILES.includes(fileName)],
+    [envsDir, fileName => fileName.endsWith('.json')]
+  ];
+
+  watches.forEach(([dir, matches]) => {
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      const watcher = fs.watch(dir, (eventType, fileName) => {
+        if (fileName && matches(fileName.toString())) {
+          scheduleRefresh();
+        }
+      });
+      context.subscriptions.push({
+        dispose: () => watcher.close()
+      });
+    } catch (error) {
+      console.warn(`[MCP Server Selector] Could not watch ${dir} for the environment tree: ${error}`);
+    }
+  });
+}
+
+/**
+ * Open a file and put the cursor on the first occurrence of text
+ */
+async function openFileAt(filePath: string, text: string): Promise<void> {
+  const document = await vscode.workspace.openTextDocument(filePath);
+  const editor = await vscode.window.showTextDocument(document);
+  const offset = document.getText().indexOf(text);
+  if (offset !== -1) {
+    const position = document.positionAt(offset);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+  }
+}
+
+function openEnvironmentSource(node: EnvironmentTreeNode): Promise<void> {
+  if (node.kind === 'server' || node.kind === 'tool') {
+    return openFileAt(getConfigFilePath(node.envName), `"${node.serverName}"`);
+  }
+  const sourcePath = getActiveEnvironmentSourcePath();
+  return openFileAt(sourcePath, path.basename(sourcePath).endsWith('.json') ? `"${node.envName}"` : `${node.envName}:`);
+}
+
+/**
+ * Register the tree and its inline actions. The tree commands take the
+ * clicked node and are hidden from the command palette.
+ */
+export function registerEnvironmentTree(context: vscode.ExtensionContext): void {
+  treeProvider = new EnvironmentTreeProvider(context);
+  context.subscriptions.push(vscode.window.registerTreeDataProvider('mcpServerSelector.environments', treeProvider));
+  watchTreeSources(context);
+
+  const commands: Record<string, (node: EnvironmentTreeNode) => unknown> = {
+    'refresh': () => refreshEnvironmentTree(),
+    'switch': node => selectEnvironment(context, node.envName),
+    'edit': node => vscode.window.showTextDocument(vscode.Uri.file(getConfigFilePath(node.envName))),
+    'rename': node => renameEnvironment(context, node.envName),
+    'duplicate': node => duplicateEnvironment(context, node.envName),
+    'delete': node => deleteEnvironment(context, node.envName),
+    'checkHealth': node => checkServerHealth(context, node.envName, node.kind === 'server' ? node.serverName : undefined),
+    'listTools': node => showServerCapabilities(context, node.envName),
+    'openSource': node => openEnvironmentSource(node)
+  };
+
+  Object.keys(commands).forEach(name => {
+    context.subscriptions.push(vscode.commands.registerCommand(`mcp-server-selector.tree.${name}`, commands[name]));
+  });
+
+  context.subscriptions.push({
+    dispose: () => {
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+    }
+  });
+}
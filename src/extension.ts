@@ -2,20 +2,41 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 import { createOrUpdateStatusBar, updateStatusBarEnvironment, getDefaultEnvironment } from './statusBar';
-import { switchEnvironment, selectEnvironment } from './mcpSelector';
+import { switchEnvironment, selectEnvironment, revertToPreviousEnvironment, showSwitchHistory, chooseServers } from './mcpSelector';
 import { ensureAllConfigFiles, switchToEnvironment, addCursorRulesToWorkspace } from './configManager';
+import { getAllEnvironments } from './environmentConfig';
+import { readActiveEnvironmentState, syncWithActiveEnvironment, watchActiveEnvironment } from './activeEnvironment';
 import { 
   createDefaultEnvironmentPropsIfNeeded, 
   loadEnvironmentConfiguration, 
   validateEnvironmentConfig, 
   migrateLegacyConfiguration,
-  getEnvironmentPropsPath 
+  getEnvironmentPropsPath,
+  getEnvironmentManifestPath,
+  upgradeEnvironmentPropsToManifest,
+  EnvironmentConfigError
 } from './environmentParser';
 import { 
   startCredentialsSender, 
-  stopCredentialsSender 
+  stopCredentialsSender,
+  refreshTokenNow
 } from './credentialsSender';
+import { startDriftDetection, stopDriftDetection, resolveDrift } from './driftDetector';
+import { registerDiffContentProvider } from './diffView';
+import { compareEnvironments } from './environmentDiff';
+import { ToggleOptions } from './toggleStrategy';
+import { checkServerHealth } from './healthCheck';
+import { showServerCapabilities } from './serverCapabilities';
+import { registerEnvironmentTree, refreshEnvironmentTree } from './environmentTree';
+import { addEnvironment, renameEnvironment, duplicateEnvironment, deleteEnvironment, reorderEnvironments } from './environmentEditor';
+import { saveCurrentConfigAsEnvironment } from './configCapture';
+import { exportEnvironments, importEnvironments } from './environmentBundle';
+import { switchTemporarily, manageTemporarySwitch, startTemporarySessionTimer, stopTemporarySessionTimer } from './temporarySession';
+import { initializeSecretStore } from './secretStore';
+import { promptSetSecret, promptClearSecrets } from './secretCommands';
+import { applySharedSourceSetting, startSharedSourceSync, stopSharedSourceSync, recheckSharedUpdates, applySharedUpdates } from './sharedSource';
 import * as fs from 'fs';
+import * as path from 'path';
 
 // Migrate legacy workspace state to new display names
 function migrateWorkspaceState(context: vscode.ExtensionContext): void {
@@ -40,23 +61,45 @@ function migrateWorkspaceState(context: vscode.ExtensionContext): void {
   }
 }
 
-// Add file watcher for mcp-environments.props
+// Watch mcp-environments.props and mcp-environments.json through their folder:
+// atomic writes replace the files, which ends a watch on the file itself
+let reloadTimer: NodeJS.Timeout | undefined;
+
 function watchEnvironmentConfiguration(context: vscode.ExtensionContext): void {
-  const propsPath = getEnvironmentPropsPath();
+  const sourceNames = [getEnvironmentPropsPath(), getEnvironmentManifestPath()].map(sourcePath => path.basename(sourcePath));
+  const dir = path.dirname(getEnvironmentPropsPath());
   
   try {
-    const watcher = fs.watch(propsPath, (eventType) => {
-      if (eventType === 'change') {
-        // Reload configuration and update UI
-        reloadEnvironmentConfiguration(context);
+    const watcher = fs.watch(dir, (eventType, fileName) => {
+      if (!fileName || !sourceNames.includes(fileName.toString())) {
+        return;
+      }
+      // One reload per burst of events
+      if (reloadTimer) {
+        clearTimeout(reloadTimer);
       }
+      reloadTimer = setTimeout(() => {
+        reloadTimer = undefined;
+        reloadEnvironmentConfiguration(context);
+      }, 200);
     });
     
     context.subscriptions.push({
       dispose: () => watcher.close()
     });
   } catch (error) {
-    console.warn(`[MCP Server Selector] Could not watch props file: ${error}`);
+    console.warn(`[MCP Server Selector] Could not watch ${dir}: ${error}`);
+  }
+}
+
+function upgradeEnvironmentManifest(context: vscode.ExtensionContext): void {
+  try {
+    const manifestPath = upgradeEnvironmentPropsToManifest();
+    updateStatusBarEnvironment(context);
+    vscode.window.showInformationMessage(`MCP environments upgraded to ${manifestPath}`);
+  } catch (error) {
+    const details = error instanceof EnvironmentConfigError ? `: ${error.errors.join(', ')}` : '';
+    vscode.window.showErrorMessage(`Failed to upgrade MCP environments: ${error instanceof Error ? error.message : error}${details}`);
   }
 }
 
@@ -78,16 +121,29 @@ function reloadEnvironmentConfiguration(context: vscode.ExtensionContext): void
   }
 }
 
+// Follow a switch made in another window
+function followActiveEnvironment(context: vscode.ExtensionContext): void {
+  const syncedEnv = syncWithActiveEnvironment(context, getAllEnvironments());
+  if (syncedEnv) {
+    updateStatusBarEnvironment(context);
+    vscode.window.showInformationMessage(`MCP environment switched to ${syncedEnv} in another window`);
+  }
+}
+
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
 
 	// Use the console to output diagnostic information (console.log) and errors (console.error)
 	// This line of code will only be executed once when your extension is activated
 	console.log('MCP Server Selector extension is now active!');
 
+	// Secrets are rendered into configs, so they must be loaded (and migrated) first
+	await initializeSecretStore(context);
+
 	try {
-		// 1. Ensure properties file exists and handle legacy migration
+		// 1. Layer the shared team environments (if configured), ensure properties file exists and handle legacy migration
+		applySharedSourceSetting();
 		createDefaultEnvironmentPropsIfNeeded();
 		migrateLegacyConfiguration();
 		
@@ -120,7 +176,12 @@ export function activate(context: vscode.ExtensionContext) {
 		
 		// Validate that stored environment still exists
 		const envDisplayNames = envConfig.environments.map(e => e.displayName);
-		if (!envDisplayNames.includes(initialEnv)) {
+		const sharedState = readActiveEnvironmentState();
+		if (sharedState && envDisplayNames.includes(sharedState.envName)) {
+			// Another window already applied an environment; follow it instead of overwriting mcp.json
+			syncWithActiveEnvironment(context, envDisplayNames);
+			console.log(`[MCP Server Selector] Following active environment '${sharedState.envName}' shared by all windows`);
+		} else if (!envDisplayNames.includes(initialEnv)) {
 			console.log(`[MCP Server Selector] Stored environment '${initialEnv}' no longer exists, using default '${defaultEnv}'`);
 			context.workspaceState.update('mcpCurrentEnv', defaultEnv);
 			switchToEnvironment(context, defaultEnv).catch(error => {
@@ -142,22 +203,161 @@ export function activate(context: vscode.ExtensionContext) {
 	}
 
 	// Register Toggle Environment Command
-	const toggleEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.toggleEnvironment', () => {
-		switchEnvironment(context);
+	const toggleEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.toggleEnvironment', (args?: ToggleOptions) => {
+		switchEnvironment(context, args);
 	});
 
 	// Register Select Environment Command
-	const selectEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.selectEnvironment', () => {
-		selectEnvironment(context);
+	const selectEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.selectEnvironment', (envName?: string) => {
+		selectEnvironment(context, envName);
+	});
+
+	// Register Upgrade Environment Manifest Command
+	const upgradeManifestDisposable = vscode.commands.registerCommand('mcp-server-selector.upgradeEnvironmentManifest', () => {
+		upgradeEnvironmentManifest(context);
+	});
+
+	// Register Revert and History Commands
+	const revertEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.revertEnvironment', () => {
+		revertToPreviousEnvironment(context);
+	});
+
+	const historyDisposable = vscode.commands.registerCommand('mcp-server-selector.showSwitchHistory', () => {
+		showSwitchHistory(context);
+	});
+
+	// Register Resolve Drift Command (used by the status bar warning state)
+	const resolveDriftDisposable = vscode.commands.registerCommand('mcp-server-selector.resolveDrift', () => {
+		resolveDrift(context);
+	});
+
+	// Register Choose Servers Command
+	const chooseServersDisposable = vscode.commands.registerCommand('mcp-server-selector.chooseServers', () => {
+		chooseServers(context);
+	});
+
+	// Register Compare Environments Command
+	const compareEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.compareEnvironments', () => {
+		compareEnvironments(context);
+	});
+
+	// Register Temporary Switch Commands
+	const switchTemporarilyDisposable = vscode.commands.registerCommand('mcp-server-selector.switchTemporarily', () => {
+		switchTemporarily(context);
+	});
+
+	const manageTemporaryDisposable = vscode.commands.registerCommand('mcp-server-selector.manageTemporarySwitch', () => {
+		manageTemporarySwitch(context);
+	});
+
+	// Register Check Server Health Command
+	const checkHealthDisposable = vscode.commands.registerCommand('mcp-server-selector.checkServerHealth', () => {
+		checkServerHealth(context);
+	});
+
+	// Register List Server Capabilities Command
+	const capabilitiesDisposable = vscode.commands.registerCommand('mcp-server-selector.listServerCapabilities', (envName?: string) => {
+		showServerCapabilities(context, envName);
+	});
+
+	// Register Environment Editing Commands
+	const addEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.addEnvironment', () => {
+		addEnvironment(context);
+	});
+
+	const renameEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.renameEnvironment', (envName?: string) => {
+		renameEnvironment(context, envName);
+	});
+
+	const duplicateEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.duplicateEnvironment', (envName?: string) => {
+		duplicateEnvironment(context, envName);
+	});
+
+	const deleteEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.deleteEnvironment', (envName?: string) => {
+		deleteEnvironment(context, envName);
+	});
+
+	const reorderEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.reorderEnvironments', (envName?: string) => {
+		reorderEnvironments(context, envName);
+	});
+
+	// Register Save Current Config Command
+	const saveCurrentDisposable = vscode.commands.registerCommand('mcp-server-selector.saveCurrentConfigAsEnvironment', () => {
+		saveCurrentConfigAsEnvironment(context);
+	});
+
+	// Register Export and Import Commands
+	const exportEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.exportEnvironments', () => {
+		exportEnvironments(context);
+	});
+
+	const importEnvDisposable = vscode.commands.registerCommand('mcp-server-selector.importEnvironments', () => {
+		importEnvironments(context);
+	});
+
+	// Register Secret Commands
+	const setSecretDisposable = vscode.commands.registerCommand('mcp-server-selector.setSecret', () => {
+		promptSetSecret(context);
 	});
 
-	context.subscriptions.push(toggleEnvDisposable, selectEnvDisposable);
+	const clearSecretsDisposable = vscode.commands.registerCommand('mcp-server-selector.clearSecrets', () => {
+		promptClearSecrets(context);
+	});
+
+	// Register Refresh Token Command
+	const refreshTokenDisposable = vscode.commands.registerCommand('mcp-server-selector.refreshTokenNow', () => {
+		refreshTokenNow(context);
+	});
+
+	// Register Apply Shared Updates Command (used by the status bar shared updates state)
+	const applySharedDisposable = vscode.commands.registerCommand('mcp-server-selector.applySharedUpdates', () => {
+		applySharedUpdates(context);
+	});
+
+	context.subscriptions.push(toggleEnvDisposable, selectEnvDisposable, upgradeManifestDisposable, revertEnvDisposable, historyDisposable, resolveDriftDisposable, chooseServersDisposable, compareEnvDisposable, switchTemporarilyDisposable, manageTemporaryDisposable, checkHealthDisposable, capabilitiesDisposable, addEnvDisposable, renameEnvDisposable, duplicateEnvDisposable, deleteEnvDisposable, reorderEnvDisposable, saveCurrentDisposable, exportEnvDisposable, importEnvDisposable, setSecretDisposable, clearSecretsDisposable, refreshTokenDisposable, applySharedDisposable);
+
+	// Keep all windows on the same environment
+	watchActiveEnvironment(context, () => {
+		followActiveEnvironment(context);
+		recheckSharedUpdates(context);
+	});
+	context.subscriptions.push(vscode.window.onDidChangeWindowState(windowState => {
+		if (windowState.focused) {
+			followActiveEnvironment(context);
+		}
+	}));
+
+	// Watch the live MCP configs for changes made outside the selector
+	registerDiffContentProvider(context);
+	startDriftDetection(context);
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+		if (event.affectsConfiguration('mcpServerSelector.targets') || event.affectsConfiguration('mcpServerSelector.writeMode')) {
+			startDriftDetection(context);
+		}
+		if (event.affectsConfiguration('mcpServerSelector.sharedSource')) {
+			applySharedSourceSetting();
+			reloadEnvironmentConfiguration(context);
+			refreshEnvironmentTree();
+		}
+		if (event.affectsConfiguration('mcpServerSelector.sharedSource') || event.affectsConfiguration('mcpServerSelector.sharedSourceFetchInterval')) {
+			startSharedSourceSync(context);
+		}
+	}));
 
 	// Create and show the status bar item
 	createOrUpdateStatusBar(context);
 	// Optionally update status bar on activation
 	updateStatusBarEnvironment(context);
 
+	// Environments, servers and tools in the activity bar
+	registerEnvironmentTree(context);
+
+	// Pick up changes to the shared team environments
+	startSharedSourceSync(context);
+
+	// Resume the countdown of a temporary switch (possibly started in another window)
+	startTemporarySessionTimer(context);
+
 	// Start credentials sender for reporting (optional feature)
 	startCredentialsSender(context);
 }
@@ -166,4 +366,10 @@ export function activate(context: vscode.ExtensionContext) {
 export function deactivate() {
 	// Stop credentials sender
 	stopCredentialsSender();
+	stopDriftDetection();
+	stopTemporarySessionTimer();
+	stopSharedSourceSync();
+	if (reloadTimer) {
+		clearTimeout(reloadTimer);
+	}
 }
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import { spawn } from 'child_process';
+import * as vscode from 'vscode';
+import { getCurrentEnvironment, renderEnvironmentConfig, readAppliedToken } from './environmentConfig';
+import { ConfigObject } from './configRenderer';
+import { setStatusBarHealth } from './statusBar';
+
+const PROBE_TIMEOUT_MS = 5000;
+const STDIO_STARTUP_MS = 1500;
+const STDERR_TAIL_LENGTH = 200;
+
+// unauthorized: reachable, but the server rejected the credentials
+export type HealthStatus = 'healthy' | 'unhealthy' | 'unauthorized';
+
+const AUTH_FAILURE_STATUS_CODES = [401, 403];
+
+export interface ServerHealthResult {
+  serverName: string;
+  transport: 'http' | 'stdio';
+  status: HealthStatus;
+  detail: string;
+  durationMs: number;
+}
+
+export interface EnvironmentHealthReport {
+  envName: string;
+  checkedAt: string;
+  results: ServerHealthResult[];
+}
+
+export interface ProbeOptions {
+  timeoutMs?: number;
+  startupMs?: number;
+}
+
+function isExecutableFile(filePath: string): boolean {
+  try {
+    fs.accessSync(filePath, fs.constants.X_OK);
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a stdio server command the way a shell would: paths are checked
+ * directly, bare names are looked up on PATH (with PATHEXT on Windows)
+ */
+export function resolveCommandOnPath(command: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const extensions = process.platform === 'win32'
+    ? ['', ...(env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';').map(ext => ext.toLowerCase())]
+    : [''];
+
+  if (command.includes('/') || command.includes(path.sep)) {
+    return extensions.map(ext => command + ext).find(isExecutableFile);
+  }
+
+  const dirs = (env.PATH || env.Path || '').split(path.delimiter).filter(dir => dir);
+  for (const dir of dirs) {
+    const match = extensions.map(ext => path.join(dir, command + ext)).find(isExecutableFile);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Probe an http/sse server. Any response below 500 (including 405 for a bare
+ * GET) means the server is reachable; 401 and 403 mean it rejected the
+ * credentials in the headers.
+ */
+export function probeHttpServer(serverName: string, url: string, headers: Record<string, string> = {}, options: ProbeOptions = {}): Promise<ServerHealthResult> {
+  const timeoutMs = options.timeoutMs ?? PROBE_TIMEOUT_MS;
+  const startedAt = Date.now();
+  const result = (status: HealthStatus, detail: string): ServerHealthResult =>
+    ({ serverName, transport: 'http', status, detail, durationMs: Date.now() - startedAt });
+
+  return new Promise(resolve => {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      resolve(result('unhealthy', `Invalid URL: ${url}`));
+      return;
+    }
+
+    const client = target.protocol === 'https:' ? https : http;
+    const req = client.request(target, {
+      method: 'GET',
+      headers: { 'Accept': 'application/json, text/event-stream', 'User-Agent': 'MCP-Server-Selector/2.0.0', ...headers }
+    }, res => {
+      // SSE endpoints keep streaming; the status line is all we need
+      res.destroy();
+      const statusCode = res.statusCode ?? 0;
+      if (AUTH_FAILURE_STATUS_CODES.includes(statusCode)) {
+        resolve(result('unauthorized', `HTTP ${statusCode}, credentials rejected`));
+        return;
+      }
+      resolve(result(statusCode < 500 ? 'healthy' : 'unhealthy', `HTTP ${statusCode}`));
+    });
+
+    req.on('error', err => resolve(result('unhealthy', err.message)));
+    req.setTimeout(timeoutMs, () => {
+      req.destroy();
+      resolve(result('unhealthy', `No response within ${timeoutMs} ms`));
+    });
+    req.end();
+  });
+}
+
+/**
+ * Start a stdio server and consider it healthy when it is still running after
+ * the startup window. The process is stopped afterwards.
+ */
+export function probeStdioServer(serverName: string, command: string, args: string[] = [], env: Record<string, string> = {}, options: ProbeOptions = {}): Promise<ServerHealthResult> {
+  const startupMs = options.startupMs ?? STDIO_STARTUP_MS;
+  const startedAt = Date.now();
+  const result = (status: HealthStatus, detail: string): ServerHealthResult =>
+    ({ serverName, transport: 'stdio', status, detail, durationMs: Date.now() - startedAt });
+
+  const processEnv = { ...process.env, ...env };
+  const resolved = resolveCommandOnPath(command, processEnv);
+  if (!resolved) {
+    return Promise.resolve(result('unhealthy', `'${command}' not found on PATH`));
+  }
+
+  return new Promise(resolve => {
+    let stderr = '';
+    let settled = false;
+    const settle = (status: HealthStatus, detail: string) => {
+      if (!settled) {
+        settled = true;
+        resolve(result(status, detail));
+      }
+    };
+
+    const child = spawn(resolved, args, {
+      env: processEnv,
+      stdio: ['pipe', 'ignore', 'pipe'],
+      shell: process.platform === 'win32' && /\.(cmd|bat)$/i.test(resolved)
+    });
+
+    child.stderr?.on('data', chunk => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_LENGTH);
+    });
+    child.on('error', err => settle('unhealthy', `Failed to start ${resolved}: ${err.message}`));
+    child.on('exit', (code, signal) => {
+      clearTimeout(timer);
+      const reason = code !== null ? `code ${code}` : `signal ${signal}`;
+      settle('unhealthy', `Exited with ${reason}${stderr.trim() ? `: ${stderr.trim()}` : ''}`);
+    });
+
+    const timer = setTimeout(() => {
+      settle('healthy', `Started ${resolved}`);
+      child.kill();
+    }, startupMs);
+  });
+}
+
+export function checkServer(serverName: string, server: ConfigObject, options: ProbeOptions = {}): Promise<ServerHealthResult> {
+  if (typeof server?.url === 'string') {
+    return probeHttpServer(serverName, server.url, server.headers, options);
+  }
+  if (typeof server?.command === 'string') {
+    return probeStdioServer(serverName, server.command, server.args, server.env, options);
+  }
+  return Promise.resolve({ serverName, transport: 'stdio', status: 'unhealthy', detail: 'Neither url nor command is set', durationMs: 0 });
+}
+
+/**
+ * Check the servers of an environment with the token currently in mcp.json
+ * when the environment is the applied one
+ */
+export async function checkEnvironmentHealth(envName: string, options: ProbeOptions = {}, serverNames?: string[]): Promise<EnvironmentHealthReport> {
+  const servers: ConfigObject = renderEnvironmentConfig(envName, readAppliedToken(envName)).mcpServers || {};
+  const names = Object.keys(servers).filter(name => !serverNames || serverNames.includes(name));
+  const results = await Promise.all(names.map(name => checkServer(name, servers[name], options)));
+  return { envName, checkedAt: new Date().toISOString(), results };
+}
+
+export function formatHealthResult(result: ServerHealthResult): string {
+  return `${result.status === 'healthy' ? '✓' : '✗'} ${result.serverName} (${result.transport}): ${result.detail} in ${result.durationMs} ms`;
+}
+
+export function formatHealthReport(report: EnvironmentHealthReport): string {
+  const rows = report.results.map(result =>
+    `| ${result.status === 'healthy' ? '✓' : '✗'} | ${result.serverName} | ${result.transport} | ${result.durationMs} ms | ${result.detail.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`
+  );
+  return [
+    `# MCP Health: ${report.envName}`,
+    '',
+    `Checked ${new Date(report.checkedAt).toLocaleString()}`,
+    '',
+    ...(rows.length > 0
+      ? ['| | Server | Transport | Time | Result |', '|---|---|---|---|---|', ...rows]
+      : ['No MCP servers in this environment.']),
+    ''
+  ].join('\n');
+}
+
+async function openHealthReport(report: EnvironmentHealthReport): Promise<void> {
+  const document = await vscode.workspace.openTextDocument({ content: formatHealthReport(report), language: 'markdown' });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
+
+/**
+ * Check the active environment, show the results in the status bar hover and
+ * warn about unhealthy servers
+ */
+export async function runHealthCheck(context: vscode.ExtensionContext): Promise<EnvironmentHealthReport> {
+  const report = await checkEnvironmentHealth(getCurrentEnvironment(context));
+  setStatusBarHealth(context, report.envName, report.results.map(formatHealthResult));
+
+  const unhealthy = report.results.filter(result => result.status !== 'healthy');
+  console.log(`[MCP Server Selector] Health check for ${report.envName}: ${report.results.length - unhealthy.length}/${report.results.length} healthy`);
+  if (unhealthy.length > 0) {
+    vscode.window.showWarningMessage(
+      `${unhealthy.length} of ${report.results.length} MCP servers in ${report.envName} failed the health check: ${unhealthy.map(result => result.serverName).join(', ')}`,
+      'Show Report'
+    ).then(action => {
+      if (action === 'Show Report') {
+        openHealthReport(report);
+      }
+    });
+  }
+  return report;
+}
+
+export function isHealthCheckAfterSwitchEnabled(): boolean {
+  return vscode.workspace.getConfiguration('mcpServerSelector').get<boolean>('healthCheckAfterSwitch', true);
+}
+
+/**
+ * Command handler: check now and open the report. Defaults to the active
+ * environment; the tree view passes an environment and optionally one server.
+ */
+export async function checkServerHealth(context: vscode.ExtensionContext, envName?: string, serverName?: string): Promise<void> {
+  try {
+    const target = envName || getCurrentEnvironment(context);
+    const report = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Checking MCP servers of ${target}...` },
+      () => checkEnvironmentHealth(target, {}, serverName ? [serverName] : undefined)
+    );
+    if (target === getCurrentEnvironment(context) && !serverName) {
+      setStatusBarHealth(context, report.envName, report.results.map(formatHealthResult));
+    }
+    await openHealthReport(report);
+  } catch (error) {
+    console.error('[MCP Selector] Error in checkServerHealth:', error);
+    vscode.window.showErrorMessage(`Error checking MCP server health: ${error}`);
+  }
+}
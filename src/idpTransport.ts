@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { IdpTlsSettings } from './environmentParser';
+
+/**
+ * HTTP(S) POST to an IDP URL: honours the scheme and port of the URL,
+ * HTTPS_PROXY/HTTP_PROXY and NO_PROXY, and the environment's CA bundle and
+ * client certificate.
+ */
+
+export interface IdpResponse {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * The TLS settings cannot be used (missing file, unsupported URL). Retrying
+ * does not help until the environment is fixed.
+ */
+export class IdpTransportConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdpTransportConfigError';
+  }
+}
+
+function getEnvValue(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  return env[name] || env[name.toLowerCase()] || undefined;
+}
+
+function defaultPort(protocol: string): number {
+  return protocol === 'https:' ? 443 : 80;
+}
+
+function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Whether NO_PROXY excludes the URL. Entries are host names (matching the
+ * host and its subdomains, with or without a leading dot), optionally with a
+ * port, or '*' for every host.
+ */
+export function shouldBypassProxy(url: URL, noProxy: string | undefined): boolean {
+  if (!noProxy) {
+    return false;
+  }
+  const hostname = bareHostname(url).toLowerCase();
+  const port = url.port || String(defaultPort(url.protocol));
+  return noProxy.split(/[\s,]+/).filter(entry => entry).some(entry => {
+    if (entry === '*') {
+      return true;
+    }
+    const [entryHost, entryPort] = entry.toLowerCase().split(/:(?=\d+$)/);
+    const host = entryHost.replace(/^\[|\]$/g, '').replace(/^\*?\./, '');
+    if (entryPort && entryPort !== port) {
+      return false;
+    }
+    return hostname === host || hostname.endsWith(`.${host}`);
+  });
+}
+
+/**
+ * The proxy for a URL from HTTPS_PROXY (https) or HTTP_PROXY (http), unless
+ * NO_PROXY excludes it
+ */
+export function getProxyForUrl(url: URL, env: NodeJS.ProcessEnv = process.env): URL | undefined {
+  const proxy = getEnvValue(env, url.protocol === 'https:' ? 'HTTPS_PROXY' : 'HTTP_PROXY');
+  if (!proxy || shouldBypassProxy(url, getEnvValue(env, 'NO_PROXY'))) {
+    return undefined;
+  }
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(proxy) ? proxy : `http://${proxy}`);
+  } catch {
+    throw new IdpTransportConfigError(`Invalid proxy URL '${proxy}'`);
+  }
+}
+
+function proxyHeaders(proxy: URL): Record<string, string> {
+  if (!proxy.username) {
+    return {};
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+function readTlsFile(filePath: string, label: string): Buffer {
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    throw new IdpTransportConfigError(`Cannot read the IDP ${label} '${filePath}': ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Node TLS options for the settings; the CA bundle is added to the default
+ * trust store rather than replacing it
+ */
+export function loadTlsOptions(settings: IdpTlsSettings | undefined): tls.ConnectionOptions {
+  if (!settings) {
+    return {};
+  }
+  const options: tls.ConnectionOptions = {};
+  if (settings.ca) {
+    options.ca = [...tls.rootCertificates, readTlsFile(settings.ca, 'CA bundle').toString()];
+  }
+  if (settings.cert && settings.key) {
+    options.cert = readTlsFile(settings.cert, 'client certificate');
+    options.key = readTlsFile(settings.key, 'client key');
+    options.passphrase = settings.passphrase || undefined;
+  }
+  return options;
+}
+
+/**
+ * Open a tunnel to host:port through the proxy with CONNECT
+ */
+function connectThroughProxy(proxy: URL, host: string, port: number, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const client = proxy.protocol === 'https:' ? https : http;
+    const authority = net.isIPv6(host) ? `[${host}]:${port}` : `${host}:${port}`;
+    const req = client.request({
+      hostname: bareHostname(proxy),
+      port: proxy.port || defaultPort(proxy.protocol),
+      method: 'CONNECT',
+      path: authority,
+      headers: { 'Host': authority, ...proxyHeaders(proxy) }
+    });
+
+    req.on('connect', (res, socket) => {
+      if (res.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new Error(`Proxy ${proxy.host} refused the tunnel to ${authority} with status ${res.statusCode}`));
+      }
+    });
+    req.on('error', (err) => {
+      reject(new Error(`Proxy ${proxy.host}: ${err.message}`));
+    });
+    req.setTimeout(timeoutMs, () => {
+      req.destroy(new Error(`timed out after ${timeoutMs / 1000}s`));
+    });
+    req.end();
+  });
+}
+
+/**
+ * POST a body to the URL and collect the response. Rejects on network and
+ * TLS errors; any HTTP status resolves.
+ */
+export async function postToIdp(
+  url: URL,
+  body: string,
+  headers: Record<string, string>,
+  tlsSettings: IdpTlsSettings | undefined,
+  timeoutMs: number,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<IdpResponse> {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new IdpTransportConfigError(`Unsupported IDP URL scheme '${url.protocol}', expected http or https`);
+  }
+  const proxy = getProxyForUrl(url, env);
+  const hostname = bareHostname(url);
+  const port = Number(url.port) || defaultPort(url.protocol);
+  const requestHeaders = { ...headers, 'Content-Length': String(Buffer.byteLength(body)) };
+
+  let options: https.RequestOptions;
+  if (url.protocol === 'https:') {
+    const tlsOptions = loadTlsOptions(tlsSettings);
+    const servername = net.isIP(hostname) ? undefined : hostname;
+    options = { hostname, port, path: url.pathname + url.search, method: 'POST', headers: requestHeaders, ...tlsOptions, servername };
+    if (proxy) {
+      const socket = await connectThroughProxy(proxy, hostname, port, timeoutMs);
+      options.createConnection = () => tls.connect({ ...tlsOptions, socket, servername });
+    }
+  } else if (proxy) {
+    // Plain HTTP goes to the proxy with the absolute URL as the path
+    options = {
+      hostname: bareHostname(proxy),
+      port: proxy.port || defaultPort(proxy.protocol),
+      path: url.href,
+      method: 'POST',
+      headers: { ...requestHeaders, 'Host': url.host, ...proxyHeaders(proxy) }
+    };
+  } else {
+    options = { hostname, port, path: url.pathname + url.search, method: 'POST', headers: requestHeaders };
+  }
+
+  const client = url.protocol === 'https:' || proxy?.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(options, (res) => {
+      let responseData = '';
+      res.on('data', (chunk) => {
+        responseData += chunk;
+      });
+      res.on('end', () => {
+        resolve({ statusCode: res.statusCode || 0, headers: res.headers, body: responseData });
+      });
+      res.on('error', reject);
+    });
+
+    req.on('error', reject);
+    req.setTimeout(timeoutMs, () => {
+      req.destroy(new Error(`timed out after ${timeoutMs / 1000}s`));
+    });
+    req.write(body);
+    req.end();
+  });
+}
+
+/**
+ * Whether a request error is a certificate problem, which a retry will not fix
+ */
+export function isCertificateError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException)?.code || '';
+  return /CERT|SELF_SIGNED|UNABLE_TO_VERIFY|UNABLE_TO_GET_ISSUER|ERR_TLS|ERR_OSSL/.test(code);
+}
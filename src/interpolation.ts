@@ -0,0 +1,251 @@
+import { ConfigObject, isPlainObject } from './configRenderer';
+
+/**
+ * ${...} interpolation for rendered environment configs
+ *
+ * Supported variables:
+ *   ${env:NAME}          - process environment variable
+ *   ${secret:key}        - named secret
+ *   ${workspaceFolder}   - first workspace folder
+ *   ${userHome}          - user home directory
+ *   ${envName}           - display name of the environment being rendered
+ *   ${token}             - access token (same as the legacy access_token_template)
+ *
+ * Any variable accepts a default: ${env:PORT:-8080}. Use $${ for a literal ${.
+ */
+
+export const LEGACY_TOKEN_TEMPLATE = 'access_token_template';
+
+export interface InterpolationVariables {
+  envName: string;
+  userHome: string;
+  workspaceFolder?: string;
+  token?: string; // When undefined, token placeholders are left for a later pass
+  env: Record<string, string | undefined>;
+  secrets: Record<string, string>;
+}
+
+export class InterpolationError extends Error {
+  constructor(message: string, public unresolved: string[]) {
+    super(message);
+    this.name = 'InterpolationError';
+  }
+}
+
+const VARIABLE_PATTERN = /\$?\$\{([^}]*)\}/g;
+
+function lookupVariable(expression: string, variables: InterpolationVariables): string | undefined {
+  const colonIndex = expression.indexOf(':');
+  const scope = colonIndex === -1 ? expression : expression.substring(0, colonIndex);
+  const key = colonIndex === -1 ? '' : expression.substring(colonIndex + 1);
+
+  switch (scope) {
+    case 'env':
+      return key ? variables.env[key] : undefined;
+    case 'secret':
+      return key ? variables.secrets[key] : undefined;
+    case 'workspaceFolder':
+      return variables.workspaceFolder;
+    case 'userHome':
+      return variables.userHome;
+    case 'envName':
+      return variables.envName;
+    case 'token':
+      return variables.token;
+    default:
+      return undefined;
+  }
+}
+
+function interpolateString(value: string, variables: InterpolationVariables, unresolved: string[]): string {
+  const result = value.replace(VARIABLE_PATTERN, (match: string, inner: string) => {
+    if (match.startsWith('$$')) {
+      return match.substring(1); // Escaped literal
+    }
+
+    const defaultIndex = inner.indexOf(':-');
+    const expression = (defaultIndex === -1 ? inner : inner.substring(0, defaultIndex)).trim();
+    const defaultValue = defaultIndex === -1 ? undefined : inner.substring(defaultIndex + 2);
+
+    if (expression === 'token' && variables.token === undefined) {
+      return match; // Token is substituted when it is issued
+    }
+
+    const resolved = lookupVariable(expression, variables);
+    if (resolved !== undefined && resolved !== '') {
+      return resolved;
+    }
+    if (defaultValue !== undefined) {
+      return defaultValue;
+    }
+
+    unresolved.push(match);
+    return match;
+  });
+
+  if (variables.token !== undefined) {
+    return result.split(LEGACY_TOKEN_TEMPLATE).join(variables.token);
+  }
+  return result;
+}
+
+function interpolateValue(value: unknown, variables: InterpolationVariables, unresolved: string[]): unknown {
+  if (typeof value === 'string') {
+    return interpolateString(value, variables, unresolved);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateValue(item, variables, unresolved));
+  }
+  if (isPlainObject(value)) {
+    const result: ConfigObject = {};
+    Object.keys(value).forEach(key => {
+      result[key] = interpolateValue(value[key], variables, unresolved);
+    });
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Interpolate every string in a rendered config.
+ * Throws InterpolationError listing all unresolved variables, so nothing is written.
+ */
+export function interpolateConfig(config: ConfigObject, variables: InterpolationVariables): ConfigObject {
+  const unresolved: string[] = [];
+  const result = interpolateValue(config, variables, unresolved) as ConfigObject;
+
+  if (unresolved.length > 0) {
+    const unique = Array.from(new Set(unresolved));
+    throw new InterpolationError(`Unresolved variables in '${variables.envName}' config: ${unique.join(', ')}`, unique);
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a config contains a token placeholder (${token} or access_token_template)
+ */
+export function configUsesToken(config: ConfigObject): boolean {
+  const content = JSON.stringify(config);
+  return content.includes(LEGACY_TOKEN_TEMPLATE) || /(^|[^$])\$\{\s*token\s*(:-[^}]*)?\}/.test(content);
+}
+
+/**
+ * Stand-in token used when rendering a config for comparison with a live file,
+ * so that the (changing) token value can be ignored
+ */
+export const TOKEN_PLACEHOLDER = '__mcp_selector_token__';
+
+function placeholderPattern(expected: string): RegExp {
+  const parts = expected.split(TOKEN_PLACEHOLDER).map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${parts.join('([\\s\\S]*?)')}$`);
+}
+
+function walkTokenPositions(expected: unknown, actual: unknown, tokens: string[]): boolean {
+  if (typeof expected === 'string' && expected.includes(TOKEN_PLACEHOLDER)) {
+    if (typeof actual !== 'string') {
+      return false;
+    }
+    const match = placeholderPattern(expected).exec(actual);
+    if (!match) {
+      return false;
+    }
+    tokens.push(...match.slice(1).filter(token => token));
+    return true;
+  }
+
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual)
+      && expected.length === actual.length
+      && expected.every((item, index) => walkTokenPositions(item, actual[index], tokens));
+  }
+
+  if (isPlainObject(expected)) {
+    if (!isPlainObject(actual)) {
+      return false;
+    }
+    const expectedKeys = Object.keys(expected).sort();
+    const actualKeys = Object.keys(actual).sort();
+    return expectedKeys.length === actualKeys.length
+      && expectedKeys.every((key, index) => key === actualKeys[index] && walkTokenPositions(expected[key], actual[key], tokens));
+  }
+
+  return expected === actual;
+}
+
+/**
+ * Compare a config rendered with TOKEN_PLACEHOLDER against a live config,
+ * accepting any token value where the placeholder appears
+ */
+export function matchesIgnoringToken(expected: ConfigObject, actual: ConfigObject | undefined): boolean {
+  return walkTokenPositions(expected, actual, []);
+}
+
+function isIndexable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Collect the token values a live config holds where the rendered config has TOKEN_PLACEHOLDER.
+ * Only positions that still line up with the rendered config are considered.
+ */
+export function extractTokenValues(expected: unknown, actual: unknown): string[] {
+  const tokens: string[] = [];
+
+  // Arrays are walked by index like objects
+  if (isIndexable(expected) && isIndexable(actual)) {
+    Object.keys(expected).forEach(key => {
+      if (key in actual) {
+        extractTokenValues(expected[key], actual[key]).forEach(token => tokens.push(token));
+      }
+    });
+  } else {
+    walkTokenPositions(expected, actual, tokens);
+  }
+
+  return Array.from(new Set(tokens));
+}
+
+/**
+ * Replace token values (and TOKEN_PLACEHOLDER) in serialized config text with a visible mask
+ */
+export function maskTokenValues(content: string, tokens: string[], mask = '<token>'): string {
+  return [TOKEN_PLACEHOLDER, ...tokens].reduce((text, token) => text.split(token).join(mask), content);
+}
+
+// Shorter stored values are too likely to occur by chance
+const MIN_SECRET_VALUE_LENGTH = 4;
+
+/**
+ * Turn stored secret values back into ${secret:name} in every string of a
+ * value, longest value first. The names used are added to `used`.
+ */
+export function templateSecretValues<T>(value: T, secrets: Record<string, string>, used?: Set<string>): T {
+  const names = Object.keys(secrets)
+    .filter(name => secrets[name].length >= MIN_SECRET_VALUE_LENGTH)
+    .sort((a, b) => secrets[b].length - secrets[a].length);
+
+  const replace = (item: unknown): unknown => {
+    if (typeof item === 'string') {
+      return names.reduce((text, name) => {
+        if (!text.includes(secrets[name])) {
+          return text;
+        }
+        used?.add(name);
+        return text.split(secrets[name]).join(`\${secret:${name}}`);
+      }, item);
+    }
+    if (Array.isArray(item)) {
+      return item.map(replace);
+    }
+    if (isPlainObject(item)) {
+      const result: ConfigObject = {};
+      Object.keys(item).forEach(key => {
+        result[key] = replace(item[key]);
+      });
+      return result;
+    }
+    return item;
+  };
+  return names.length > 0 ? replace(value) as T : value;
+}
@@ -0,0 +1,484 @@
+import * as http from 'http';
+import * as https from 'https';
+import { spawn, ChildProcess } from 'child_process';
+import { ConfigObject } from './configRenderer';
+
+/**
+ * Minimal MCP client: just enough JSON-RPC over stdio, streamable HTTP and
+ * the older HTTP+SSE transport to run the initialize handshake and list what
+ * a server offers.
+ */
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const CLIENT_INFO = { name: 'mcp-server-selector', version: '2.0.0' };
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+}
+
+export interface McpPromptInfo {
+  name: string;
+  description?: string;
+}
+
+export interface McpResourceInfo {
+  uri: string;
+  name?: string;
+  description?: string;
+}
+
+export interface ServerCapabilityListing {
+  serverName: string;
+  transport: 'stdio' | 'http' | 'sse';
+  serverInfo?: { name: string; version?: string };
+  protocolVersion?: string;
+  tools: McpToolInfo[];
+  prompts: McpPromptInfo[];
+  resources: McpResourceInfo[];
+  error?: string;
+}
+
+export interface McpClientOptions {
+  timeoutMs?: number;
+}
+
+export class McpProtocolError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'McpProtocolError';
+  }
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: ConfigObject;
+  result?: ConfigObject;
+  error?: { code: number; message: string };
+}
+
+interface PendingRequest {
+  resolve: (result: ConfigObject | undefined) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Split a text/event-stream into events. Returns a function that takes chunks.
+ */
+export function createSseParser(onEvent: (event: string, data: string) => void): (chunk: string) => void {
+  let buffer = '';
+  let eventName = 'message';
+  let dataLines: string[] = [];
+
+  return chunk => {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() ?? '';
+
+    lines.forEach(line => {
+      if (line === '') {
+        if (dataLines.length > 0) {
+          onEvent(eventName, dataLines.join('\n'));
+        }
+        eventName = 'message';
+        dataLines = [];
+      } else if (line.startsWith('event:')) {
+        eventName = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    });
+  };
+}
+
+/**
+ * Request/response bookkeeping shared by all transports
+ */
+abstract class McpConnection {
+  private nextId = 1;
+  private pending = new Map<number | string, PendingRequest>();
+
+  constructor(protected timeoutMs: number) {}
+
+  protected abstract send(message: JsonRpcMessage): Promise<void>;
+
+  abstract close(): void;
+
+  request(method: string, params?: ConfigObject): Promise<ConfigObject | undefined> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new McpProtocolError(`No response to ${method} within ${this.timeoutMs} ms`));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+
+      this.send({ jsonrpc: '2.0', id, method, params }).catch(error => {
+        this.settle(id, undefined, error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  notify(method: string, params?: ConfigObject): Promise<void> {
+    return this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  protected handleMessage(message: JsonRpcMessage): void {
+    if (message.method !== undefined) {
+      // Server-to-client request; answer pings, decline everything else
+      if (message.id !== undefined) {
+        const reply: JsonRpcMessage = message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported: ${message.method}` } };
+        this.send(reply).catch(() => undefined);
+      }
+      return;
+    }
+
+    if (message.id !== undefined) {
+      this.settle(message.id, message.result, message.error ? new McpProtocolError(message.error.message, message.error.code) : undefined);
+    }
+  }
+
+  protected handlePayload(text: string): void {
+    let parsed: JsonRpcMessage | JsonRpcMessage[];
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Servers sometimes log to stdout; anything that is not JSON-RPC is ignored
+      return;
+    }
+    (Array.isArray(parsed) ? parsed : [parsed]).forEach(message => this.handleMessage(message));
+  }
+
+  protected failAll(error: Error): void {
+    Array.from(this.pending.keys()).forEach(id => this.settle(id, undefined, error));
+  }
+
+  private settle(id: number | string, result: ConfigObject | undefined, error?: Error): void {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+}
+
+class StdioMcpConnection extends McpConnection {
+  private child: ChildProcess;
+  private stderr = '';
+
+  constructor(command: string, args: string[], env: Record<string, string>, timeoutMs: number) {
+    super(timeoutMs);
+    this.child = spawn(command, args, {
+      env: { ...process.env, ...env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32'
+    });
+
+    let buffer = '';
+    this.child.stdout!.on('data', chunk => {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.filter(line => line.trim()).forEach(line => this.handlePayload(line));
+    });
+    this.child.stdin!.on('error', () => undefined); // Reported through 'exit'
+    this.child.stderr!.on('data', chunk => {
+      this.stderr = (this.stderr + chunk.toString()).slice(-200);
+    });
+    this.child.on('error', error => this.failAll(new McpProtocolError(`Failed to start ${command}: ${error.message}`)));
+    this.child.on('exit', code => {
+      this.failAll(new McpProtocolError(`Server exited with code ${code}${this.stderr.trim() ? `: ${this.stderr.trim()}` : ''}`));
+    });
+  }
+
+  protected send(message: JsonRpcMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.child.stdin!.write(JSON.stringify(message) + '\n', error => error ? reject(error) : resolve());
+    });
+  }
+
+  close(): void {
+    this.child.stdin?.end();
+    this.child.kill();
+  }
+}
+
+function httpRequest(url: URL, method: string, headers: Record<string, string>, body?: string): http.ClientRequest {
+  const client = url.protocol === 'https:' ? https : http;
+  const req = client.request(url, { method, headers });
+  if (body !== undefined) {
+    req.write(body);
+  }
+  return req;
+}
+
+function readBody(res: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    res.on('data', chunk => {
+      body += chunk;
+    });
+    res.on('end', () => resolve(body));
+    res.on('error', reject);
+  });
+}
+
+/**
+ * Streamable HTTP: every message is a POST; responses come back as JSON or
+ * as an event stream on the same request
+ */
+class StreamableHttpMcpConnection extends McpConnection {
+  private sessionId: string | undefined;
+  private streams = new Set<http.IncomingMessage>();
+
+  constructor(private url: URL, private headers: Record<string, string>, timeoutMs: number) {
+    super(timeoutMs);
+  }
+
+  protected send(message: JsonRpcMessage): Promise<void> {
+    const body = JSON.stringify(message);
+    const headers: Record<string, string> = {
+      ...this.headers,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      'Content-Length': String(Buffer.byteLength(body)),
+      'MCP-Protocol-Version': MCP_PROTOCOL_VERSION
+    };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+
+    return new Promise((resolve, reject) => {
+      const req = httpRequest(this.url, 'POST', headers, body);
+      req.on('error', reject);
+      req.on('response', res => {
+        const sessionId = res.headers['mcp-session-id'];
+        if (typeof sessionId === 'string') {
+          this.sessionId = sessionId;
+        }
+
+        const statusCode = res.statusCode ?? 0;
+        if (statusCode >= 400) {
+          res.resume();
+          reject(new McpProtocolError(`HTTP ${statusCode}`, statusCode));
+          return;
+        }
+        resolve();
+
+        if (String(res.headers['content-type']).includes('text/event-stream')) {
+          this.streams.add(res);
+          const parse = createSseParser((event, data) => {
+            if (event === 'message') {
+              this.handlePayload(data);
+            }
+          });
+          res.setEncoding('utf-8');
+          res.on('data', parse);
+          res.on('close', () => this.streams.delete(res));
+        } else {
+          readBody(res).then(text => {
+            if (text.trim()) {
+              this.handlePayload(text);
+            }
+          }, () => undefined);
+        }
+      });
+      req.end();
+    });
+  }
+
+  close(): void {
+    this.streams.forEach(stream => stream.destroy());
+    if (this.sessionId) {
+      // Best effort; servers may not support explicit session termination
+      const req = httpRequest(this.url, 'DELETE', { ...this.headers, 'Mcp-Session-Id': this.sessionId });
+      req.on('error', () => undefined);
+      req.on('response', res => res.resume());
+      req.end();
+    }
+  }
+}
+
+/**
+ * HTTP+SSE (protocol 2024-11-05): a long-lived GET stream announces the
+ * endpoint to POST to and carries every response
+ */
+class SseMcpConnection extends McpConnection {
+  private endpoint: Promise<URL>;
+  private stream: http.IncomingMessage | undefined;
+  private req: http.ClientRequest;
+
+  constructor(url: URL, private headers: Record<string, string>, timeoutMs: number) {
+    super(timeoutMs);
+    this.req = httpRequest(url, 'GET', { ...headers, 'Accept': 'text/event-stream' });
+
+    this.endpoint = new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new McpProtocolError(`No endpoint event within ${timeoutMs} ms`)), timeoutMs);
+      this.req.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+        this.failAll(error);
+      });
+      this.req.on('response', res => {
+        if ((res.statusCode ?? 0) >= 400) {
+          clearTimeout(timer);
+          res.resume();
+          reject(new McpProtocolError(`HTTP ${res.statusCode}`, res.statusCode));
+          return;
+        }
+        this.stream = res;
+        res.setEncoding('utf-8');
+        res.on('data', createSseParser((event, data) => {
+          if (event === 'endpoint') {
+            clearTimeout(timer);
+            resolve(new URL(data, url));
+          } else if (event === 'message') {
+            this.handlePayload(data);
+          }
+        }));
+        res.on('close', () => this.failAll(new McpProtocolError('Event stream closed')));
+      });
+      this.req.end();
+    });
+    // Surfaced through the first send
+    this.endpoint.catch(() => undefined);
+  }
+
+  protected async send(message: JsonRpcMessage): Promise<void> {
+    const endpoint = await this.endpoint;
+    const body = JSON.stringify(message);
+
+    await new Promise<void>((resolve, reject) => {
+      const req = httpRequest(endpoint, 'POST', {
+        ...this.headers,
+        'Content-Type': 'application/json',
+        'Content-Length': String(Buffer.byteLength(body))
+      }, body);
+      req.on('error', reject);
+      req.on('response', res => {
+        res.resume();
+        if ((res.statusCode ?? 0) >= 400) {
+          reject(new McpProtocolError(`HTTP ${res.statusCode}`, res.statusCode));
+        } else {
+          resolve();
+        }
+      });
+      req.end();
+    });
+  }
+
+  close(): void {
+    this.stream?.destroy();
+    this.req.destroy();
+  }
+}
+
+function isLegacySseServer(server: ConfigObject): boolean {
+  return server.type === 'sse' || /\/sse\/?$/.test(new URL(server.url).pathname);
+}
+
+async function listAll<T>(connection: McpConnection, method: string, key: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await connection.request(method, cursor ? { cursor } : {});
+    items.push(...(Array.isArray(result?.[key]) ? result[key] : []));
+    cursor = result?.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+async function runHandshake(connection: McpConnection, listing: ServerCapabilityListing): Promise<ServerCapabilityListing> {
+  const initialized = await connection.request('initialize', {
+    protocolVersion: MCP_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: CLIENT_INFO
+  });
+  await connection.notify('notifications/initialized');
+
+  const capabilities = initialized?.capabilities || {};
+  const [tools, prompts, resources] = await Promise.all([
+    capabilities.tools ? listAll<McpToolInfo>(connection, 'tools/list', 'tools') : Promise.resolve([]),
+    capabilities.prompts ? listAll<McpPromptInfo>(connection, 'prompts/list', 'prompts') : Promise.resolve([]),
+    capabilities.resources ? listAll<McpResourceInfo>(connection, 'resources/list', 'resources') : Promise.resolve([])
+  ]);
+
+  return {
+    ...listing,
+    serverInfo: initialized?.serverInfo,
+    protocolVersion: initialized?.protocolVersion,
+    tools: tools.map(tool => ({ name: tool.name, description: tool.description })),
+    prompts: prompts.map(prompt => ({ name: prompt.name, description: prompt.description })),
+    resources: resources.map(resource => ({ uri: resource.uri, name: resource.name, description: resource.description }))
+  };
+}
+
+async function connectAndList(connection: McpConnection, listing: ServerCapabilityListing): Promise<ServerCapabilityListing> {
+  try {
+    return await runHandshake(connection, listing);
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * Connect to one server of a rendered config, run the handshake and list its
+ * tools, prompts and resources. Failures are reported in the listing's error.
+ */
+export async function listServerCapabilities(serverName: string, server: ConfigObject, options: McpClientOptions = {}): Promise<ServerCapabilityListing> {
+  const timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+  const empty = (transport: ServerCapabilityListing['transport']): ServerCapabilityListing =>
+    ({ serverName, transport, tools: [], prompts: [], resources: [] });
+
+  if (typeof server?.command === 'string') {
+    const listing = empty('stdio');
+    try {
+      return await connectAndList(new StdioMcpConnection(server.command, server.args || [], server.env || {}, timeoutMs), listing);
+    } catch (error) {
+      return { ...listing, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  if (typeof server?.url !== 'string') {
+    return { ...empty('stdio'), error: 'Neither url nor command is set' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(server.url);
+  } catch {
+    return { ...empty('http'), error: `Invalid URL: ${server.url}` };
+  }
+  const headers: Record<string, string> = server.headers || {};
+
+  if (!isLegacySseServer(server)) {
+    try {
+      return await connectAndList(new StreamableHttpMcpConnection(url, headers, timeoutMs), empty('http'));
+    } catch (error) {
+      // Servers that only speak the older transport reject the POST; fall back to SSE
+      const status = error instanceof McpProtocolError ? error.code : undefined;
+      if (status !== 400 && status !== 404 && status !== 405) {
+        return { ...empty('http'), error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  }
+
+  try {
+    return await connectAndList(new SseMcpConnection(url, headers, timeoutMs), empty('sse'));
+  } catch (error) {
+    return { ...empty('sse'), error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -1,9 +1,35 @@
 import * as vscode from 'vscode';
-import { MCPEnvironment, switchToEnvironment, getAllEnvironments } from './configManager';
+import { MCPEnvironment, switchToEnvironment, SwitchCancelledError } from './configManager';
+import { getAllEnvironments, getCurrentEnvironment, getConfigFilePath } from './environmentConfig';
 import { updateStatusBarEnvironment, getEnvironmentIcon, getDefaultEnvironment } from './statusBar';
 import { loadEnvironmentConfiguration } from './environmentParser';
+import { listSnapshots, restoreSnapshot, SwitchSnapshot } from './switchHistory';
+import { writeActiveEnvironmentState, readActiveEnvironmentState } from './activeEnvironment';
+import { renderConfigFile } from './configRenderer';
+import { getDisabledServers, setDisabledServers } from './serverSelection';
+import { previewEnvironmentSwitch, isPreviewBeforeSwitchEnabled } from './environmentDiff';
+import { confirmGuardedSwitch } from './switchGuard';
+import { sendCredentials, mcpIdpUrlFileExists, updateTokenValidityDisplay } from './credentialsSender';
+import { ToggleOptions, resolveToggleOptions, getNextToggleEnvironment } from './toggleStrategy';
 
-export function switchEnvironment(context: vscode.ExtensionContext) {
+function applyEnvironment(context: vscode.ExtensionContext, envName: string) {
+  switchToEnvironment(context, envName).then(success => {
+    updateStatusBarEnvironment(context);
+    if (success) {
+      vscode.window.showInformationMessage(`Switched MCP environment to ${envName}`);
+    } else {
+      vscode.window.showErrorMessage(`Failed to switch to ${envName}. Check if config file exists.`);
+    }
+  }).catch(error => {
+    if (error instanceof SwitchCancelledError) {
+      vscode.window.showInformationMessage(error.message);
+      return;
+    }
+    vscode.window.showErrorMessage(`Error switching to ${envName}: ${error}`);
+  });
+}
+
+export function switchEnvironment(context: vscode.ExtensionContext, args?: ToggleOptions) {
   try {
     const envConfig = loadEnvironmentConfiguration();
     
@@ -13,29 +39,28 @@ export function switchEnvironment(context: vscode.ExtensionContext) {
     }
     
     const currentEnv = context.workspaceState.get<MCPEnvironment>('mcpCurrentEnv') || getDefaultEnvironment();
-    const currentIndex = envConfig.environments.findIndex(e => e.displayName === currentEnv);
-    const nextIndex = (currentIndex + 1) % envConfig.environments.length;
-    const nextEnv = envConfig.environments[nextIndex].displayName;
+    const options = resolveToggleOptions(args);
+    const nextEnv = getNextToggleEnvironment(
+      envConfig.environments,
+      envConfig.totalCount,
+      currentEnv,
+      options,
+      readActiveEnvironmentState()?.previousEnvName
+    );
     
-    context.workspaceState.update('mcpCurrentEnv', nextEnv);
-    updateStatusBarEnvironment(context);
+    if (!nextEnv) {
+      vscode.window.showInformationMessage(`No MCP environment to toggle to from ${currentEnv} (strategy: ${options.strategy})`);
+      return;
+    }
     
-    switchToEnvironment(context, nextEnv).then(success => {
-      if (success) {
-        vscode.window.showInformationMessage(`Switched MCP environment to ${nextEnv}`);
-      } else {
-        vscode.window.showErrorMessage(`Failed to switch to ${nextEnv}. Check if config file exists.`);
-      }
-    }).catch(error => {
-      vscode.window.showErrorMessage(`Error switching to ${nextEnv}: ${error}`);
-    });
+    applyEnvironment(context, nextEnv);
   } catch (error) {
     console.error('[MCP Selector] Error in switchEnvironment:', error);
     vscode.window.showErrorMessage(`Error switching environment: ${error}`);
   }
 }
 
-export function selectEnvironment(context: vscode.ExtensionContext) {
+export function selectEnvironment(context: vscode.ExtensionContext, envName?: string) {
   try {
     const envConfig = loadEnvironmentConfiguration();
     
@@ -44,31 +69,159 @@ export function selectEnvironment(context: vscode.ExtensionContext) {
       return;
     }
     
+    // Programmatic selection (e.g. from Compare Environments) skips the quick pick
+    if (envName) {
+      if (!envConfig.environments.some(env => env.displayName === envName)) {
+        vscode.window.showErrorMessage(`Unknown MCP environment: ${envName}`);
+        return;
+      }
+      applyEnvironment(context, envName);
+      return;
+    }
+    
     const items = envConfig.environments.map(env => ({
       label: `${getEnvironmentIcon(env.displayName)} ${env.displayName}`,
+      description: env.description,
+      detail: env.tags && env.tags.length > 0 ? env.tags.join(', ') : undefined,
       env: env.displayName
     }));
     
     vscode.window.showQuickPick(items, {
       placeHolder: 'Select MCP Environment'
     }).then(pick => {
-      if (pick) {
-        context.workspaceState.update('mcpCurrentEnv', pick.env);
-        updateStatusBarEnvironment(context);
-        
-        switchToEnvironment(context, pick.env).then(success => {
-          if (success) {
-            vscode.window.showInformationMessage(`Switched MCP environment to ${pick.env}`);
-          } else {
-            vscode.window.showErrorMessage(`Failed to switch to ${pick.env}. Check if config file exists.`);
-          }
-        }).catch(error => {
-          vscode.window.showErrorMessage(`Error switching to ${pick.env}: ${error}`);
-        });
+      if (!pick) {
+        return;
+      }
+      
+      if (!isPreviewBeforeSwitchEnabled()) {
+        applyEnvironment(context, pick.env);
+        return;
       }
+      
+      previewEnvironmentSwitch(context, pick.env).then(proceed => {
+        if (proceed) {
+          applyEnvironment(context, pick.env);
+        }
+      }, error => {
+        vscode.window.showErrorMessage(`Error previewing ${pick.env}: ${error}`);
+      });
     });
   } catch (error) {
     console.error('[MCP Selector] Error in selectEnvironment:', error);
     vscode.window.showErrorMessage(`Error selecting environment: ${error}`);
   }
-} 
\ No newline at end of file
+}
+
+async function applySnapshot(context: vscode.ExtensionContext, snapshot: SwitchSnapshot) {
+  try {
+    // Reverting into a guarded environment is a switch like any other
+    const currentEnv = getCurrentEnvironment(context);
+    if (snapshot.fromEnv && snapshot.fromEnv !== currentEnv && !(await confirmGuardedSwitch(currentEnv, snapshot.fromEnv))) {
+      vscode.window.showInformationMessage(`Kept ${currentEnv}, did not revert to ${snapshot.fromEnv}`);
+      return;
+    }
+    
+    restoreSnapshot(snapshot);
+    
+    // Only point the status bar at the restored environment if it still exists
+    if (snapshot.fromEnv && getAllEnvironments().includes(snapshot.fromEnv)) {
+      context.workspaceState.update('mcpCurrentEnv', snapshot.fromEnv);
+      writeActiveEnvironmentState(snapshot.fromEnv);
+      
+      // The restored mcp.json holds the token from before the switch, which the IDP may no longer accept
+      if (mcpIdpUrlFileExists()) {
+        sendCredentials(context).catch(error => {
+          console.error(`[MCP Server Selector] Credentials delivery after restoring ${snapshot.fromEnv} failed: ${error}`);
+        });
+      }
+    }
+    updateStatusBarEnvironment(context);
+    updateTokenValidityDisplay(context);
+    
+    vscode.window.showInformationMessage(`Restored MCP configuration from before the switch to ${snapshot.toEnv}`);
+  } catch (error) {
+    console.error('[MCP Selector] Error restoring snapshot:', error);
+    vscode.window.showErrorMessage(`Error restoring MCP configuration: ${error}`);
+  }
+}
+
+export function revertToPreviousEnvironment(context: vscode.ExtensionContext) {
+  const [latest] = listSnapshots();
+  
+  if (!latest) {
+    vscode.window.showInformationMessage('No MCP environment switches to revert');
+    return;
+  }
+  
+  applySnapshot(context, latest);
+}
+
+export function showSwitchHistory(context: vscode.ExtensionContext) {
+  const snapshots = listSnapshots();
+  
+  if (snapshots.length === 0) {
+    vscode.window.showInformationMessage('No MCP environment switch history yet');
+    return;
+  }
+  
+  const items = snapshots.map(snapshot => ({
+    label: `${snapshot.fromEnv ?? '(unknown)'} → ${snapshot.toEnv}`,
+    description: new Date(snapshot.createdAt).toLocaleString(),
+    detail: `Restore ${snapshot.files.map(file => file.filePath).join(', ')}`,
+    snapshot
+  }));
+  
+  vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a switch to undo (newer switches are discarded)'
+  }).then(pick => {
+    if (pick) {
+      applySnapshot(context, pick.snapshot);
+    }
+  });
+}
+
+export async function chooseServers(context: vscode.ExtensionContext) {
+  const currentEnv = getCurrentEnvironment(context);
+  
+  try {
+    const servers = renderConfigFile(getConfigFilePath(currentEnv)).mcpServers || {};
+    const serverNames = Object.keys(servers);
+    
+    if (serverNames.length === 0) {
+      vscode.window.showInformationMessage(`Environment ${currentEnv} has no MCP servers`);
+      return;
+    }
+    
+    const disabled = getDisabledServers(currentEnv);
+    const items = serverNames.map(name => ({
+      label: name,
+      description: servers[name].url || [servers[name].command, ...(servers[name].args || [])].filter(part => part).join(' '),
+      picked: !disabled.includes(name)
+    }));
+    
+    const picks = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: `Servers enabled in ${currentEnv}`
+    });
+    if (!picks) {
+      return;
+    }
+    
+    const enabled = picks.map(pick => pick.label);
+    setDisabledServers(currentEnv, serverNames.filter(name => !enabled.includes(name)));
+    
+    const success = await switchToEnvironment(context, currentEnv);
+    if (success) {
+      vscode.window.showInformationMessage(`${enabled.length} of ${serverNames.length} MCP servers enabled in ${currentEnv}`);
+    } else {
+      vscode.window.showErrorMessage(`Failed to apply server selection to ${currentEnv}`);
+    }
+  } catch (error) {
+    if (error instanceof SwitchCancelledError) {
+      vscode.window.showInformationMessage(error.message);
+      return;
+    }
+    console.error('[MCP Selector] Error in chooseServers:', error);
+    vscode.window.showErrorMessage(`Error choosing servers: ${error}`);
+  }
+}
@@ -0,0 +1,334 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { ConfigObject, serializeConfig } from './configRenderer';
+import { writeFileAtomic, withFileLock } from './atomicWrite';
+import { getUserHome } from './userHome';
+
+/**
+ * MCP client targets
+ *
+ * Environment configs use Cursor's canonical shape ({ "mcpServers": { ... } }).
+ * Each adapter knows where a client keeps its config and how to translate
+ * the canonical servers into that client's format.
+ */
+
+export type McpTargetId = 'cursor' | 'vscode' | 'claudeDesktop' | 'windsurf';
+
+/**
+ * replace - the servers block is replaced wholesale
+ * merge   - only servers written by the selector are replaced, hand-added ones are kept
+ */
+export type TargetWriteMode = 'replace' | 'merge';
+
+export const MCP_TARGET_IDS: McpTargetId[] = ['cursor', 'vscode', 'claudeDesktop', 'windsurf'];
+
+export interface McpTargetAdapter {
+  id: McpTargetId;
+  label: string;
+  serversKey: string;       // Top-level key holding the servers in the client's file
+  ownsWholeFile: boolean;   // Whether the rendered config replaces the whole file
+  getConfigPath(): string | undefined;
+  translateServer(server: ConfigObject): ConfigObject;
+}
+
+export interface TargetWriteResult {
+  target: McpTargetId;
+  filePath?: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  collisions?: string[]; // User-managed servers that shadow environment servers (merge mode)
+}
+
+export interface MergedTargetConfig {
+  config: ConfigObject;
+  ownedKeys: string[];
+  collisions: string[];
+}
+
+function isRemoteServer(server: ConfigObject): boolean {
+  return typeof server.url === 'string' && typeof server.command !== 'string';
+}
+
+function remoteTransport(server: ConfigObject): 'http' | 'sse' {
+  return server.type === 'sse' ? 'sse' : 'http';
+}
+
+const cursorTarget: McpTargetAdapter = {
+  id: 'cursor',
+  label: 'Cursor',
+  serversKey: 'mcpServers',
+  ownsWholeFile: true,
+  getConfigPath: () => path.join(getUserHome(), '.cursor', 'mcp.json'),
+  translateServer: server => server
+};
+
+const vscodeTarget: McpTargetAdapter = {
+  id: 'vscode',
+  label: 'VS Code',
+  serversKey: 'servers',
+  ownsWholeFile: false,
+  getConfigPath: () => {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? path.join(folder.uri.fsPath, '.vscode', 'mcp.json') : undefined;
+  },
+  translateServer: server => {
+    if (isRemoteServer(server)) {
+      const { url, headers } = server;
+      return headers ? { type: remoteTransport(server), url, headers } : { type: remoteTransport(server), url };
+    }
+    const { type, ...rest } = server;
+    return { type: 'stdio', ...rest };
+  }
+};
+
+const claudeDesktopTarget: McpTargetAdapter = {
+  id: 'claudeDesktop',
+  label: 'Claude Desktop',
+  serversKey: 'mcpServers',
+  ownsWholeFile: false,
+  getConfigPath: () => {
+    const home = getUserHome();
+    switch (os.platform()) {
+      case 'darwin':
+        return path.join(home, 'Library', 'Application Support', 'Claude', 'claude_desktop_config.json');
+      case 'win32':
+        return path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), 'Claude', 'claude_desktop_config.json');
+      default:
+        return path.join(home, '.config', 'Claude', 'claude_desktop_config.json');
+    }
+  },
+  translateServer: server => {
+    if (!isRemoteServer(server)) {
+      const { type, ...rest } = server;
+      return rest;
+    }
+    // Claude Desktop only launches stdio servers, so bridge remote ones through mcp-remote
+    const headerArgs = Object.entries(server.headers || {}).flatMap(([name, value]) => ['--header', `${name}:${value}`]);
+    const transportArgs = remoteTransport(server) === 'sse' ? ['--transport', 'sse-only'] : [];
+    return { command: 'npx', args: ['-y', 'mcp-remote', server.url, ...headerArgs, ...transportArgs] };
+  }
+};
+
+const windsurfTarget: McpTargetAdapter = {
+  id: 'windsurf',
+  label: 'Windsurf',
+  serversKey: 'mcpServers',
+  ownsWholeFile: false,
+  getConfigPath: () => path.join(getUserHome(), '.codeium', 'windsurf', 'mcp_config.json'),
+  translateServer: server => {
+    if (isRemoteServer(server)) {
+      const { url, headers } = server;
+      return headers ? { serverUrl: url, headers } : { serverUrl: url };
+    }
+    const { type, ...rest } = server;
+    return rest;
+  }
+};
+
+const TARGET_ADAPTERS: Record<McpTargetId, McpTargetAdapter> = {
+  cursor: cursorTarget,
+  vscode: vscodeTarget,
+  claudeDesktop: claudeDesktopTarget,
+  windsurf: windsurfTarget
+};
+
+export function getTargetAdapter(id: McpTargetId): McpTargetAdapter {
+  return TARGET_ADAPTERS[id];
+}
+
+/**
+ * Get the targets enabled in the mcpServerSelector.targets setting (Cursor by default)
+ */
+export function getConfiguredTargets(): McpTargetAdapter[] {
+  const configured = vscode.workspace.getConfiguration('mcpServerSelector').get<string[]>('targets', ['cursor']);
+  const ids = configured.filter((id): id is McpTargetId => MCP_TARGET_IDS.includes(id as McpTargetId));
+
+  if (ids.length < configured.length) {
+    console.warn(`[MCP Server Selector] Ignoring unknown MCP targets: ${configured.filter(id => !ids.includes(id as McpTargetId)).join(', ')}`);
+  }
+
+  return Array.from(new Set(ids.length > 0 ? ids : ['cursor' as McpTargetId])).map(getTargetAdapter);
+}
+
+/**
+ * Translate the canonical mcpServers block into a target's servers block
+ */
+export function translateServers(adapter: McpTargetAdapter, canonical: ConfigObject): ConfigObject {
+  const servers: ConfigObject = canonical.mcpServers || {};
+  const translated: ConfigObject = {};
+  Object.keys(servers).forEach(name => {
+    translated[name] = adapter.translateServer(servers[name]);
+  });
+  return translated;
+}
+
+export function getTargetWriteMode(): TargetWriteMode {
+  const mode = vscode.workspace.getConfiguration('mcpServerSelector').get<string>('writeMode', 'replace');
+  return mode === 'merge' ? 'merge' : 'replace';
+}
+
+/**
+ * Path of the file recording which servers the selector wrote into each target file
+ */
+export function getOwnedServersPath(): string {
+  return path.join(getUserHome(), '.cursor', 'mcp-selector', 'owned-servers.json');
+}
+
+function readOwnedServers(): Record<string, string[]> {
+  try {
+    const filePath = getOwnedServersPath();
+    return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : {};
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not read owned servers record: ${error}`);
+    return {};
+  }
+}
+
+function writeOwnedServers(owned: Record<string, string[]>): void {
+  writeFileAtomic(getOwnedServersPath(), serializeConfig(owned), { verifyJson: true });
+}
+
+export function getOwnedServerKeys(filePath: string): string[] {
+  return readOwnedServers()[filePath] || [];
+}
+
+/**
+ * Read a target file, returning undefined when it is missing or not a JSON object
+ */
+export function readTargetConfig(filePath: string): ConfigObject | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : undefined;
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Config is not valid JSON: ${filePath}`);
+    return undefined;
+  }
+}
+
+/**
+ * Build the full file content for a target. Targets that do not own their
+ * file keep every top-level key other than the servers block.
+ */
+export function buildTargetConfig(adapter: McpTargetAdapter, canonical: ConfigObject, existing: ConfigObject | undefined): ConfigObject {
+  if (adapter.ownsWholeFile) {
+    return canonical;
+  }
+  return { ...(existing || {}), [adapter.serversKey]: translateServers(adapter, canonical) };
+}
+
+/**
+ * Merge the environment's servers into a target file, replacing only the
+ * servers the selector previously wrote (ownedKeys). User-managed servers
+ * are kept; when one has the same name as an environment server it wins
+ * and the name is reported as a collision.
+ */
+export function mergeTargetConfig(adapter: McpTargetAdapter, canonical: ConfigObject, existing: ConfigObject | undefined, ownedKeys: string[]): MergedTargetConfig {
+  const base: ConfigObject = { ...(existing || {}) };
+  if (adapter.ownsWholeFile) {
+    Object.keys(canonical).forEach(key => {
+      if (key !== adapter.serversKey) {
+        base[key] = canonical[key];
+      }
+    });
+  }
+  
+  const servers: ConfigObject = { ...(base[adapter.serversKey] || {}) };
+  ownedKeys.forEach(key => delete servers[key]);
+  
+  const translated = adapter.ownsWholeFile ? (canonical[adapter.serversKey] || {}) : translateServers(adapter, canonical);
+  const collisions: string[] = [];
+  const nextOwnedKeys: string[] = [];
+  
+  Object.keys(translated).forEach(name => {
+    if (name in servers) {
+      collisions.push(name);
+      return;
+    }
+    servers[name] = translated[name];
+    nextOwnedKeys.push(name);
+  });
+  
+  return {
+    config: { ...base, [adapter.serversKey]: servers },
+    ownedKeys: nextOwnedKeys,
+    collisions
+  };
+}
+
+/**
+ * The content a target file should have for a rendered config in the current write mode
+ */
+export function buildExpectedTargetConfig(adapter: McpTargetAdapter, canonical: ConfigObject, existing: ConfigObject | undefined, filePath: string): ConfigObject {
+  if (getTargetWriteMode() === 'merge') {
+    return mergeTargetConfig(adapter, canonical, existing, getOwnedServerKeys(filePath)).config;
+  }
+  return buildTargetConfig(adapter, canonical, existing);
+}
+
+/**
+ * Write a rendered environment config to every given target
+ */
+export function writeConfigToTargets(canonical: ConfigObject, adapters: McpTargetAdapter[]): TargetWriteResult[] {
+  // Hold the ownership record for the whole write so concurrent windows cannot interleave
+  return withFileLock(getOwnedServersPath(), () => writeConfigToTargetsLocked(canonical, adapters));
+}
+
+function writeConfigToTargetsLocked(canonical: ConfigObject, adapters: McpTargetAdapter[]): TargetWriteResult[] {
+  const mode = getTargetWriteMode();
+  const owned = readOwnedServers();
+  
+  const results = adapters.map((adapter): TargetWriteResult => {
+    const filePath = adapter.getConfigPath();
+
+    if (!filePath) {
+      console.warn(`[MCP Server Selector] No config location for ${adapter.label}, skipping`);
+      return { target: adapter.id, success: true, skipped: true };
+    }
+
+    try {
+      // Read-modify-write under the target's lock so no other writer slips in between
+      const collisions = withFileLock(filePath, () => {
+        const existing = readTargetConfig(filePath);
+        let content: ConfigObject;
+        let mergeCollisions: string[] = [];
+        
+        if (mode === 'merge') {
+          const merged = mergeTargetConfig(adapter, canonical, existing, owned[filePath] || []);
+          content = merged.config;
+          mergeCollisions = merged.collisions;
+          owned[filePath] = merged.ownedKeys;
+        } else {
+          content = buildTargetConfig(adapter, canonical, existing);
+          owned[filePath] = Object.keys(content[adapter.serversKey] || {});
+        }
+        
+        writeFileAtomic(filePath, serializeConfig(content), { verifyJson: true });
+        return mergeCollisions;
+      });
+      console.log(`[MCP Server Selector] Wrote ${adapter.label} config (${mode}): ${filePath}`);
+      
+      if (collisions.length > 0) {
+        console.warn(`[MCP Server Selector] User-managed servers in ${filePath} shadow environment servers: ${collisions.join(', ')}`);
+      }
+      return { target: adapter.id, filePath, success: true, collisions };
+    } catch (error) {
+      console.error(`[MCP Server Selector] Failed to write ${adapter.label} config: ${error}`);
+      return { target: adapter.id, filePath, success: false, error: String(error) };
+    }
+  });
+  
+  try {
+    writeOwnedServers(owned);
+  } catch (error) {
+    console.error(`[MCP Server Selector] Failed to record owned servers: ${error}`);
+  }
+  
+  return results;
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { getSecretNames, validateSecretName, setSecret, deleteSecret, readAccessToken, deleteAccessToken } from './secretStore';
+import { getCurrentEnvironment, getConfigFilePath } from './environmentConfig';
+import { switchToEnvironment } from './configManager';
+import { renderConfigFile } from './configRenderer';
+
+/**
+ * Commands that set and delete the secrets in secretStore. Kept apart from
+ * the store because re-applying an environment goes through configManager,
+ * which renders with the stored secrets.
+ */
+
+/**
+ * Re-apply the active environment when it uses one of the changed secrets
+ */
+async function reapplyIfUsed(context: vscode.ExtensionContext, names: string[]): Promise<boolean> {
+  const currentEnv = getCurrentEnvironment(context);
+  const rendered = JSON.stringify(renderConfigFile(getConfigFilePath(currentEnv)));
+  if (!names.some(name => rendered.includes(`\${secret:${name}}`) || rendered.includes(`\${secret:${name}:-`))) {
+    return false;
+  }
+  await switchToEnvironment(context, currentEnv);
+  return true;
+}
+
+/**
+ * Command handler: store a named secret, picking an existing name or entering a new one
+ */
+export async function promptSetSecret(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const names = getSecretNames(context);
+    let name: string | undefined;
+    if (names.length > 0) {
+      const pick = await vscode.window.showQuickPick(
+        [{ label: '$(add) New secret...', name: undefined as string | undefined }, ...names.map(existing => ({ label: existing, name: existing as string | undefined }))],
+        { placeHolder: 'Secret to set (used as ${secret:name} in environment configs)' }
+      );
+      if (!pick) {
+        return;
+      }
+      name = pick.name;
+    }
+    if (!name) {
+      name = (await vscode.window.showInputBox({
+        prompt: 'Secret name, referenced as ${secret:name} in environment configs',
+        placeHolder: 'e.g. github-token',
+        validateInput: validateSecretName
+      }))?.trim();
+      if (!name) {
+        return;
+      }
+    }
+
+    const value = await vscode.window.showInputBox({ prompt: `Value of ${name}`, password: true, ignoreFocusOut: true });
+    if (value === undefined) {
+      return;
+    }
+
+    await setSecret(context, name, value);
+    const reapplied = await reapplyIfUsed(context, [name]);
+    console.log(`[MCP Server Selector] Stored secret '${name}'${reapplied ? ' and re-applied the active environment' : ''}`);
+    vscode.window.showInformationMessage(`Stored secret ${name}${reapplied ? ' and re-applied the active environment' : ''}`);
+  } catch (error) {
+    console.error('[MCP Selector] Error in promptSetSecret:', error);
+    vscode.window.showErrorMessage(`Error storing secret: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Command handler: delete chosen named secrets and/or the stored access token
+ */
+export async function promptClearSecrets(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const hasToken = !!(await readAccessToken(context));
+    const items = [
+      ...(hasToken ? [{ label: '$(key) Access token', description: 'issued for the IDP', name: undefined as string | undefined }] : []),
+      ...getSecretNames(context).map(name => ({ label: name, description: undefined, name: name as string | undefined }))
+    ];
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('No MCP secrets are stored');
+      return;
+    }
+
+    const picks = await vscode.window.showQuickPick(items, { canPickMany: true, placeHolder: 'Secrets to delete' });
+    if (!picks || picks.length === 0) {
+      return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete ${picks.length} MCP secret(s)? Environments that use them cannot be applied until they are set again.`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirm !== 'Delete') {
+      return;
+    }
+
+    for (const pick of picks) {
+      if (pick.name === undefined) {
+        await deleteAccessToken(context);
+      } else {
+        await deleteSecret(context, pick.name);
+      }
+    }
+    console.log(`[MCP Server Selector] Deleted ${picks.length} secret(s): ${picks.map(pick => pick.label).join(', ')}`);
+    vscode.window.showInformationMessage(`Deleted ${picks.length} MCP secret(s)`);
+  } catch (error) {
+    console.error('[MCP Selector] Error in promptClearSecrets:', error);
+    vscode.window.showErrorMessage(`Error deleting secrets: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { removeFileLocked } from './atomicWrite';
+import { getUserHome } from './userHome';
+
+/**
+ * Access token and named ${secret:key} values in VS Code's SecretStorage.
+ * Named secrets are mirrored in memory so configs can still be rendered
+ * synchronously; SecretStorage cannot list its keys, so the names are kept
+ * in global state.
+ */
+
+const ACCESS_TOKEN_KEY = 'mcpServerSelector.accessToken';
+const SECRET_KEY_PREFIX = 'mcpServerSelector.secret.';
+const SECRET_NAMES_KEY = 'mcpSecretNames';
+
+// Plain-text files used before SecretStorage; migrated and removed on activation
+const LEGACY_ACCESS_TOKEN_FILENAME = 'access-token.crd';
+const LEGACY_SECRETS_FILENAME = 'secrets.json';
+
+let secretValues: Record<string, string> = {};
+
+export function getLegacyAccessTokenFilePath(): string {
+  return path.join(getUserHome(), '.vscode', 'mcp-selector', LEGACY_ACCESS_TOKEN_FILENAME);
+}
+
+export function getLegacySecretsFilePath(): string {
+  return path.join(getUserHome(), '.vscode', 'mcp-selector', LEGACY_SECRETS_FILENAME);
+}
+
+/**
+ * Named secrets for ${secret:key} placeholders, as loaded from SecretStorage
+ */
+export function getSecretValues(): Record<string, string> {
+  return { ...secretValues };
+}
+
+export function getSecretNames(context: vscode.ExtensionContext): string[] {
+  return context.globalState.get<string[]>(SECRET_NAMES_KEY) || [];
+}
+
+/**
+ * Reason a secret name cannot be used in ${secret:key}, or undefined when it can
+ */
+export function validateSecretName(name: string): string | undefined {
+  if (!name.trim()) {
+    return 'Enter a name';
+  }
+  if (!/^[A-Za-z0-9._-]+$/.test(name.trim())) {
+    return 'Use letters, digits, \'.\', \'_\' and \'-\' only';
+  }
+  return undefined;
+}
+
+export async function setSecret(context: vscode.ExtensionContext, name: string, value: string): Promise<void> {
+  await context.secrets.store(SECRET_KEY_PREFIX + name, value);
+  secretValues[name] = value;
+  const names = getSecretNames(context);
+  if (!names.includes(name)) {
+    await context.globalState.update(SECRET_NAMES_KEY, [...names, name].sort());
+  }
+}
+
+export async function deleteSecret(context: vscode.ExtensionContext, name: string): Promise<void> {
+  await context.secrets.delete(SECRET_KEY_PREFIX + name);
+  delete secretValues[name];
+  await context.globalState.update(SECRET_NAMES_KEY, getSecretNames(context).filter(other => other !== name));
+}
+
+export async function storeAccessToken(context: vscode.ExtensionContext, token: string): Promise<void> {
+  await context.secrets.store(ACCESS_TOKEN_KEY, token);
+}
+
+export async function readAccessToken(context: vscode.ExtensionContext): Promise<string | undefined> {
+  return (await context.secrets.get(ACCESS_TOKEN_KEY)) || undefined;
+}
+
+export async function deleteAccessToken(context: vscode.ExtensionContext): Promise<void> {
+  await context.secrets.delete(ACCESS_TOKEN_KEY);
+}
+
+/**
+ * Move access-token.crd and secrets.json into SecretStorage and delete them.
+ * A value already in SecretStorage wins over the file. Returns the number of
+ * values migrated.
+ */
+export async function migrateLegacySecrets(context: vscode.ExtensionContext): Promise<number> {
+  let migrated = 0;
+
+  const tokenPath = getLegacyAccessTokenFilePath();
+  if (fs.existsSync(tokenPath)) {
+    const token = fs.readFileSync(tokenPath, 'utf-8').trim();
+    if (token && !(await readAccessToken(context))) {
+      await storeAccessToken(context, token);
+      migrated++;
+    }
+    removeFileLocked(tokenPath);
+  }
+
+  const secretsPath = getLegacySecretsFilePath();
+  if (fs.existsSync(secretsPath)) {
+    const parsed = JSON.parse(fs.readFileSync(secretsPath, 'utf-8'));
+    const existing = getSecretNames(context);
+    for (const name of Object.keys(parsed || {})) {
+      if (typeof parsed[name] === 'string' && !validateSecretName(name) && !existing.includes(name)) {
+        await setSecret(context, name, parsed[name]);
+        migrated++;
+      }
+    }
+    removeFileLocked(secretsPath);
+  }
+
+  return migrated;
+}
+
+async function loadSecretValues(context: vscode.ExtensionContext): Promise<void> {
+  const loaded: Record<string, string> = {};
+  for (const name of getSecretNames(context)) {
+    const value = await context.secrets.get(SECRET_KEY_PREFIX + name);
+    if (value !== undefined) {
+      loaded[name] = value;
+    }
+  }
+  secretValues = loaded;
+}
+
+/**
+ * Migrate the legacy files, load the named secrets and follow changes made
+ * in other windows. Must finish before the first config is rendered.
+ */
+export async function initializeSecretStore(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const migrated = await migrateLegacySecrets(context);
+    if (migrated > 0) {
+      console.log(`[MCP Server Selector] Moved ${migrated} token(s) and secret(s) from plain-text files into secret storage`);
+    }
+  } catch (error) {
+    console.error('[MCP Server Selector] Failed to migrate secrets into secret storage:', error);
+    vscode.window.showWarningMessage(`Could not move MCP secrets into secret storage: ${error instanceof Error ? error.message : error}`);
+  }
+
+  await loadSecretValues(context);
+  context.subscriptions.push(context.secrets.onDidChange(event => {
+    if (event.key.startsWith(SECRET_KEY_PREFIX)) {
+      loadSecretValues(context);
+    }
+  }));
+}
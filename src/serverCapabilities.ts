@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getAllEnvironments, getCurrentEnvironment, renderEnvironmentConfig, readAppliedToken } from './environmentConfig';
+import { ConfigObject } from './configRenderer';
+import { ServerCapabilityListing, listServerCapabilities } from './mcpClient';
+import { writeFileAtomic, withFileLock } from './atomicWrite';
+import { getEnvironmentIcon } from './statusBar';
+import { getUserHome } from './userHome';
+
+/**
+ * What each server of an environment exposes, as last reported by the servers
+ * themselves. Cached per environment in server-capabilities.json.
+ */
+export interface EnvironmentCapabilityListing {
+  envName: string;
+  listedAt: string;
+  servers: ServerCapabilityListing[];
+}
+
+export function getCapabilityCachePath(): string {
+  const home = getUserHome();
+  return path.join(home, '.cursor', 'mcp-selector', 'server-capabilities.json');
+}
+
+function readCapabilityCache(): Record<string, EnvironmentCapabilityListing> {
+  try {
+    const filePath = getCapabilityCachePath();
+    return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : {};
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not read server capability cache: ${error}`);
+    return {};
+  }
+}
+
+export function getCachedCapabilities(envName: string): EnvironmentCapabilityListing | undefined {
+  return readCapabilityCache()[envName];
+}
+
+export function saveCapabilities(listing: EnvironmentCapabilityListing): void {
+  const filePath = getCapabilityCachePath();
+  withFileLock(filePath, () => {
+    const cache = readCapabilityCache();
+    cache[listing.envName] = listing;
+    writeFileAtomic(filePath, JSON.stringify(cache, null, 2), { verifyJson: true });
+  });
+}
+
+/**
+ * Move (or with no new name, drop) the cached listing of a renamed or deleted environment
+ */
+export function renameCachedCapabilities(envName: string, newName?: string): void {
+  const filePath = getCapabilityCachePath();
+  withFileLock(filePath, () => {
+    const cache = readCapabilityCache();
+    if (!cache[envName]) {
+      return;
+    }
+    if (newName) {
+      cache[newName] = { ...cache[envName], envName: newName };
+    }
+    delete cache[envName];
+    writeFileAtomic(filePath, JSON.stringify(cache, null, 2), { verifyJson: true });
+  });
+}
+
+/**
+ * Connect to every server of an environment and cache what they expose. The
+ * token currently in mcp.json is used when the environment is the applied one.
+ */
+export async function refreshEnvironmentCapabilities(envName: string): Promise<EnvironmentCapabilityListing> {
+  const servers: ConfigObject = renderEnvironmentConfig(envName, readAppliedToken(envName)).mcpServers || {};
+  const listing: EnvironmentCapabilityListing = {
+    envName,
+    listedAt: new Date().toISOString(),
+    servers: await Promise.all(Object.keys(servers).map(name => listServerCapabilities(name, servers[name])))
+  };
+
+  saveCapabilities(listing);
+  return listing;
+}
+
+export function formatCapabilityReport(listing: EnvironmentCapabilityListing): string {
+  const lines = [`# MCP Capabilities: ${listing.envName}`, '', `Listed ${new Date(listing.listedAt).toLocaleString()}`, ''];
+
+  listing.servers.forEach(server => {
+    const info = server.serverInfo ? ` — ${server.serverInfo.name}${server.serverInfo.version ? ` ${server.serverInfo.version}` : ''}` : '';
+    lines.push(`## ${server.serverName} (${server.transport})${info}`, '');
+
+    if (server.error) {
+      lines.push(`Failed: ${server.error}`, '');
+      return;
+    }
+
+    const section = (title: string, entries: string[]) => {
+      lines.push(`### ${title} (${entries.length})`, '', ...(entries.length > 0 ? entries : ['_None_']), '');
+    };
+    section('Tools', server.tools.map(tool => `- \`${tool.name}\`${tool.description ? ` — ${tool.description}` : ''}`));
+    section('Prompts', server.prompts.map(prompt => `- \`${prompt.name}\`${prompt.description ? ` — ${prompt.description}` : ''}`));
+    section('Resources', server.resources.map(resource => `- \`${resource.uri}\`${resource.name ? ` — ${resource.name}` : ''}`));
+  });
+
+  if (listing.servers.length === 0) {
+    lines.push('No MCP servers in this environment.', '');
+  }
+  return lines.join('\n');
+}
+
+async function openCapabilityReport(listing: EnvironmentCapabilityListing): Promise<void> {
+  const document = await vscode.workspace.openTextDocument({ content: formatCapabilityReport(listing), language: 'markdown' });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
+
+/**
+ * Command handler: pick an environment (the active one first), list its
+ * servers' tools, prompts and resources and open the report
+ */
+export async function showServerCapabilities(context: vscode.ExtensionContext, envName?: string): Promise<void> {
+  try {
+    const currentEnv = getCurrentEnvironment(context);
+    if (!envName) {
+      const pick = await vscode.window.showQuickPick(
+        [currentEnv, ...getAllEnvironments().filter(env => env !== currentEnv)].map(env => {
+          const cached = getCachedCapabilities(env);
+          return {
+            label: `${getEnvironmentIcon(env)} ${env}`,
+            description: env === currentEnv ? 'active' : undefined,
+            detail: cached ? `Last listed ${new Date(cached.listedAt).toLocaleString()}` : 'Not listed yet',
+            env
+          };
+        }),
+        { placeHolder: 'List the MCP tools, prompts and resources of...' }
+      );
+      if (!pick) {
+        return;
+      }
+      envName = pick.env;
+    }
+
+    const target = envName;
+    const listing = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Connecting to the MCP servers of ${target}...` },
+      () => refreshEnvironmentCapabilities(target)
+    );
+    await openCapabilityReport(listing);
+  } catch (error) {
+    console.error('[MCP Selector] Error in showServerCapabilities:', error);
+    vscode.window.showErrorMessage(`Error listing MCP server capabilities: ${error}`);
+  }
+}
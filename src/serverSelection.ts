@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigObject } from './configRenderer';
+import { writeFileAtomic } from './atomicWrite';
+import { getUserHome } from './userHome';
+
+/**
+ * Per-environment server selection. Disabled server names are stored
+ * (rather than enabled ones) so servers added to an env file later show up.
+ */
+
+export function getServerSelectionPath(): string {
+  const home = getUserHome();
+  return path.join(home, '.cursor', 'mcp-selector', 'disabled-servers.json');
+}
+
+function readServerSelection(): Record<string, string[]> {
+  try {
+    const filePath = getServerSelectionPath();
+    return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : {};
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not read server selection: ${error}`);
+    return {};
+  }
+}
+
+export function getDisabledServers(envName: string): string[] {
+  const disabled = readServerSelection()[envName];
+  return Array.isArray(disabled) ? disabled : [];
+}
+
+export function setDisabledServers(envName: string, serverNames: string[]): void {
+  const selection = readServerSelection();
+  if (serverNames.length > 0) {
+    selection[envName] = serverNames;
+  } else {
+    delete selection[envName];
+  }
+  writeFileAtomic(getServerSelectionPath(), JSON.stringify(selection, null, 2), { verifyJson: true });
+}
+
+/**
+ * Drop the servers disabled for an environment from its rendered config
+ */
+export function applyServerSelection(config: ConfigObject, envName: string): ConfigObject {
+  const disabled = getDisabledServers(envName);
+  if (disabled.length === 0 || !config.mcpServers) {
+    return config;
+  }
+
+  const mcpServers: ConfigObject = {};
+  Object.keys(config.mcpServers)
+    .filter(name => !disabled.includes(name))
+    .forEach(name => {
+      mcpServers[name] = config.mcpServers[name];
+    });
+  return { ...config, mcpServers };
+}
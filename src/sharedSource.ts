@@ -0,0 +1,232 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import * as vscode from 'vscode';
+import { setSharedSourceDir, getSharedSourceDir, getEnvironmentPropsPath, getEnvironmentManifestPath } from './environmentParser';
+import { switchToEnvironment, SwitchCancelledError } from './configManager';
+import { getCurrentEnvironment } from './environmentConfig';
+import { checkForDrift } from './driftDetector';
+import { refreshEnvironmentTree } from './environmentTree';
+import { setStatusBarSharedUpdates, updateStatusBarEnvironment } from './statusBar';
+import { getUserHome } from './userHome';
+
+/**
+ * Shared team environments: a folder (often a git working copy) with its own
+ * props or manifest file and envs/, layered under the local environments.
+ * Edits to it are picked up as they land; the active environment is only
+ * re-applied on request, and a git upstream is fetched periodically.
+ */
+
+const CHANGE_DELAY_MS = 500;
+const GIT_TIMEOUT_MS = 30000;
+
+let watchers: fs.FSWatcher[] = [];
+let changeTimer: NodeJS.Timeout | undefined;
+let fetchTimer: NodeJS.Timeout | undefined;
+let commitsBehind = 0;
+let activeOutdated = false;
+
+/**
+ * Absolute shared source folder for a setting value; ~ and ${userHome} are expanded
+ */
+export function resolveSharedSourcePath(setting: string | undefined): string | undefined {
+  const trimmed = setting?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const expanded = trimmed.replace(/^~(?=$|[\\/])/, getUserHome()).replace(/\$\{userHome\}/g, getUserHome());
+  return path.resolve(expanded);
+}
+
+/**
+ * Read mcpServerSelector.sharedSource and make the environment loader use it.
+ * Runs before the environments are first loaded.
+ */
+export function applySharedSourceSetting(): string | undefined {
+  const dir = resolveSharedSourcePath(vscode.workspace.getConfiguration('mcpServerSelector').get<string>('sharedSource'));
+  if (dir && !fs.existsSync(dir)) {
+    console.warn(`[MCP Server Selector] Shared environment source ${dir} does not exist`);
+    vscode.window.showWarningMessage(`The shared MCP environment source ${dir} does not exist`);
+    setSharedSourceDir(undefined);
+    return undefined;
+  }
+  setSharedSourceDir(dir);
+  return dir;
+}
+
+function runGit(dir: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd: dir, timeout: GIT_TIMEOUT_MS }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+      } else {
+        resolve(stdout.trim());
+      }
+    });
+  });
+}
+
+/**
+ * Summary of what is not applied yet, or undefined when up to date
+ */
+function describeSharedUpdates(context: vscode.ExtensionContext): string | undefined {
+  const parts = [
+    commitsBehind > 0 ? `${commitsBehind} new commit${commitsBehind === 1 ? '' : 's'} upstream` : undefined,
+    activeOutdated ? `changes to ${getCurrentEnvironment(context)} not applied` : undefined
+  ].filter(part => part);
+  return parts.length > 0 ? parts.join('; ') : undefined;
+}
+
+function showSharedUpdateState(context: vscode.ExtensionContext): void {
+  setStatusBarSharedUpdates(context, describeSharedUpdates(context));
+}
+
+/**
+ * After the shared files changed: reload what depends on them and check
+ * whether the live config still matches the active environment
+ */
+function onSharedSourceChanged(context: vscode.ExtensionContext): void {
+  refreshEnvironmentTree();
+  updateStatusBarEnvironment(context);
+  activeOutdated = checkForDrift(context).length > 0;
+  showSharedUpdateState(context);
+  console.log(`[MCP Server Selector] Shared environment source changed${activeOutdated ? '; the active environment has updates' : ''}`);
+}
+
+/**
+ * Clear the pending state once the active environment was re-applied or
+ * switched (in this or another window)
+ */
+export function recheckSharedUpdates(context: vscode.ExtensionContext): void {
+  if (activeOutdated) {
+    activeOutdated = checkForDrift(context).length > 0;
+    showSharedUpdateState(context);
+  }
+}
+
+/**
+ * Fetch the shared working copy and count the upstream commits not pulled
+ * yet. Folders that are not git working copies with an upstream are skipped.
+ */
+export async function checkSharedSourceUpstream(context: vscode.ExtensionContext): Promise<number> {
+  const dir = getSharedSourceDir();
+  if (!dir) {
+    return 0;
+  }
+  try {
+    await runGit(dir, ['rev-parse', '--abbrev-ref', '@{u}']);
+  } catch {
+    return 0;
+  }
+
+  try {
+    await runGit(dir, ['fetch', '--quiet']);
+    commitsBehind = parseInt(await runGit(dir, ['rev-list', '--count', 'HEAD..@{u}']), 10) || 0;
+    showSharedUpdateState(context);
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not check ${dir} for upstream changes: ${error}`);
+  }
+  return commitsBehind;
+}
+
+/**
+ * Watch the shared folder and its envs/, and fetch its upstream on the
+ * configured interval. Directories are watched because pulls replace files.
+ */
+export function startSharedSourceSync(context: vscode.ExtensionContext): void {
+  stopSharedSourceSync();
+  commitsBehind = 0;
+  activeOutdated = false;
+  showSharedUpdateState(context);
+
+  const dir = getSharedSourceDir();
+  if (!dir) {
+    return;
+  }
+
+  const sourceNames = [getEnvironmentPropsPath(), getEnvironmentManifestPath()].map(sourcePath => path.basename(sourcePath));
+  const watches: [string, (fileName: string) => boolean][] = [
+    [dir, fileName => sourceNames.includes(fileName)],
+    [path.join(dir, 'envs'), fileName => fileName.endsWith('.json') || fileName.endsWith('.txt')]
+  ];
+  watches.forEach(([watchedDir, matches]) => {
+    if (!fs.existsSync(watchedDir)) {
+      return;
+    }
+    try {
+      watchers.push(fs.watch(watchedDir, (eventType, fileName) => {
+        if (!fileName || !matches(fileName.toString())) {
+          return;
+        }
+        if (changeTimer) {
+          clearTimeout(changeTimer);
+        }
+        changeTimer = setTimeout(() => {
+          changeTimer = undefined;
+          onSharedSourceChanged(context);
+        }, CHANGE_DELAY_MS);
+      }));
+    } catch (error) {
+      console.warn(`[MCP Server Selector] Could not watch ${watchedDir}: ${error}`);
+    }
+  });
+
+  const intervalMinutes = vscode.workspace.getConfiguration('mcpServerSelector').get<number>('sharedSourceFetchInterval', 15);
+  checkSharedSourceUpstream(context);
+  if (intervalMinutes > 0) {
+    fetchTimer = setInterval(() => checkSharedSourceUpstream(context), intervalMinutes * 60 * 1000);
+  }
+}
+
+export function stopSharedSourceSync(): void {
+  watchers.forEach(watcher => watcher.close());
+  watchers = [];
+  if (changeTimer) {
+    clearTimeout(changeTimer);
+    changeTimer = undefined;
+  }
+  if (fetchTimer) {
+    clearInterval(fetchTimer);
+    fetchTimer = undefined;
+  }
+}
+
+/**
+ * Command handler: pull upstream commits (fast-forward only) and re-apply the
+ * active environment when the shared changes affect it
+ */
+export async function applySharedUpdates(context: vscode.ExtensionContext): Promise<void> {
+  const dir = getSharedSourceDir();
+  if (!dir) {
+    vscode.window.showInformationMessage('No shared environment source is configured (mcpServerSelector.sharedSource)');
+    return;
+  }
+
+  try {
+    const behind = commitsBehind > 0 || await checkSharedSourceUpstream(context) > 0;
+    if (behind) {
+      await runGit(dir, ['pull', '--ff-only', '--quiet']);
+      commitsBehind = 0;
+      refreshEnvironmentTree();
+    }
+
+    const currentEnv = getCurrentEnvironment(context);
+    const reapply = behind || activeOutdated;
+    if (reapply) {
+      await switchToEnvironment(context, currentEnv);
+    }
+    activeOutdated = false;
+    showSharedUpdateState(context);
+    updateStatusBarEnvironment(context);
+    vscode.window.showInformationMessage(reapply
+      ? `Applied the shared environment updates to ${currentEnv}`
+      : 'The shared environments are up to date');
+  } catch (error) {
+    if (error instanceof SwitchCancelledError) {
+      vscode.window.showInformationMessage(error.message);
+      return;
+    }
+    console.error('[MCP Selector] Error in applySharedUpdates:', error);
+    vscode.window.showErrorMessage(`Error applying shared environment updates: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -1,39 +1,68 @@
 import * as vscode from 'vscode';
-import { MCPEnvironment, getConfigFilePath, getCursorMcpPath } from './configManager';
-import { loadEnvironmentConfiguration } from './environmentParser';
+import { getConfigFilePath } from './environmentConfig';
+import { getConfiguredTargets } from './mcpTargets';
+import { loadEnvironmentConfiguration, resolveDangerLevel, DangerLevel } from './environmentParser';
 
 let statusBarItem: vscode.StatusBarItem | undefined;
+let driftedFiles: string[] = [];
+let temporarySession: TemporarySessionDisplay | undefined;
+let healthLines: { envName: string; lines: string[] } | undefined;
+let sharedUpdates: string | undefined;
+let tokenValidity: TokenValidityDisplay | undefined;
+let credentialsError: string | undefined;
 
-// Dynamic color assignment based on environment position
+/**
+ * Countdown shown while a temporary switch is running
+ */
+export interface TemporarySessionDisplay {
+  envName: string;
+  revertTo: string;
+  expiresAt: string;
+  remaining: string;
+}
+
+/**
+ * Remaining validity of the access token, shown while an IDP URL is configured
+ */
+export interface TokenValidityDisplay {
+  remaining: string;
+  expiresAt?: string;
+  expired: boolean;
+  lastError?: string;
+}
+
+const DANGER_LEVEL_COLORS: Record<DangerLevel, string> = {
+  safe: '#4caf50',       // Green
+  staging: '#ff9800',    // Orange
+  production: '#f44336'  // Red
+};
+
+const DANGER_LEVEL_ICONS: Record<DangerLevel, string> = {
+  safe: '$(desktop-download)',
+  staging: '$(beaker)',
+  production: '$(rocket)'
+};
+
+// Color assignment: explicit manifest color, then danger level (declared or inferred from position)
 export function getEnvironmentColor(displayName: string): string {
   const envConfig = loadEnvironmentConfiguration();
   const env = envConfig.environments.find(e => e.displayName === displayName);
   
-  if (!env) {return '#4caf50';} // Default green
-  
-  const { position } = env;
-  const { totalCount } = envConfig;
+  if (!env) {return DANGER_LEVEL_COLORS.safe;} // Default green
+  if (env.color) {return env.color;}
   
-  if (totalCount === 1) {return '#4caf50';} // Green for single env
-  if (position === 0) {return '#4caf50';}    // Green for first (safest)
-  if (position === totalCount - 1) {return '#f44336';} // Red for last (dangerous)
-  return '#ff9800'; // Orange for middle environments
+  return DANGER_LEVEL_COLORS[resolveDangerLevel(env, envConfig.totalCount)];
 }
 
-// Dynamic icon assignment based on environment position
+// Icon assignment: explicit manifest codicon, then danger level (declared or inferred from position)
 export function getEnvironmentIcon(displayName: string): string {
   const envConfig = loadEnvironmentConfiguration();
   const env = envConfig.environments.find(e => e.displayName === displayName);
   
-  if (!env) {return '$(desktop-download)';} // Default
+  if (!env) {return DANGER_LEVEL_ICONS.safe;} // Default
+  if (env.icon) {return env.icon.startsWith('$(') ? env.icon : `$(${env.icon})`;}
   
-  const { position } = env;
-  const { totalCount } = envConfig;
-  
-  if (totalCount === 1) {return '$(desktop-download)';}
-  if (position === 0) {return '$(desktop-download)';}    // Local development
-  if (position === totalCount - 1) {return '$(rocket)';} // Production
-  return '$(beaker)'; // Testing/staging
+  return DANGER_LEVEL_ICONS[resolveDangerLevel(env, envConfig.totalCount)];
 }
 
 // Get the default environment (first in the list)
@@ -59,6 +88,133 @@ export function updateStatusBarEnvironment(context: vscode.ExtensionContext) {
   statusBarItem!.color = getEnvironmentColor(currentEnv);
   
   const configPath = getConfigFilePath(currentEnv);
-  const cursorPath = getCursorMcpPath();
-  statusBarItem!.tooltip = `Current MCP Environment: ${currentEnv}\nSource: ${configPath}\nActive: ${cursorPath}\n\nClick to select environment`;
-} 
\ No newline at end of file
+  const activePaths = getConfiguredTargets()
+    .map(target => target.getConfigPath())
+    .filter(targetPath => targetPath)
+    .join(', ');
+  const env = loadEnvironmentConfiguration().environments.find(e => e.displayName === currentEnv);
+  const details = [
+    env?.description,
+    env?.owner ? `Owner: ${env.owner}` : undefined,
+    env?.tags && env.tags.length > 0 ? `Tags: ${env.tags.join(', ')}` : undefined
+  ].filter(line => line).map(line => `\n${line}`).join('');
+  const sessionDetails = temporarySession
+    ? `\n\nTemporary: reverts to ${temporarySession.revertTo} at ${new Date(temporarySession.expiresAt).toLocaleTimeString()}`
+    : '';
+  const healthDetails = healthLines && healthLines.envName === currentEnv && healthLines.lines.length > 0
+    ? `\n\nHealth:\n${healthLines.lines.join('\n')}`
+    : '';
+  const sharedDetails = sharedUpdates ? `\n\nShared environments: ${sharedUpdates}` : '';
+  const tokenDetails = tokenValidity
+    ? `\n\nAccess token: ${tokenValidity.expired || !tokenValidity.expiresAt ? 'expired' : `valid until ${new Date(tokenValidity.expiresAt).toLocaleTimeString()} (${tokenValidity.remaining} left)`}` +
+      (tokenValidity.lastError ? `\nLast refresh failed: ${tokenValidity.lastError}` : '')
+    : '';
+  const baseTooltip = `Current MCP Environment: ${currentEnv}${details}\nSource: ${configPath}\nActive: ${activePaths}${sessionDetails}${healthDetails}${sharedDetails}${tokenDetails}`;
+  
+  if (driftedFiles.length > 0) {
+    statusBarItem!.text = `$(warning) MCP: ${currentEnv}`;
+    statusBarItem!.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    statusBarItem!.command = 'mcp-server-selector.resolveDrift';
+    statusBarItem!.tooltip = `${baseTooltip}\n\nModified outside the selector: ${driftedFiles.join(', ')}\n\nClick to resolve`;
+  } else if (credentialsError) {
+    statusBarItem!.text = `$(error) MCP: ${currentEnv}`;
+    statusBarItem!.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+    statusBarItem!.command = 'mcp-server-selector.refreshTokenNow';
+    statusBarItem!.tooltip = `${baseTooltip}\n\nThe access token could not be registered: ${credentialsError}\n\nClick to retry`;
+  } else if (temporarySession) {
+    statusBarItem!.text = `${getEnvironmentIcon(currentEnv)} MCP: ${currentEnv} $(watch) ${temporarySession.remaining}`;
+    statusBarItem!.backgroundColor = undefined;
+    statusBarItem!.command = 'mcp-server-selector.manageTemporarySwitch';
+    statusBarItem!.tooltip = `${baseTooltip}\n\nClick to revert now or extend`;
+  } else if (sharedUpdates) {
+    statusBarItem!.text = `${getEnvironmentIcon(currentEnv)} MCP: ${currentEnv} $(cloud-download)`;
+    statusBarItem!.backgroundColor = undefined;
+    statusBarItem!.command = 'mcp-server-selector.applySharedUpdates';
+    statusBarItem!.tooltip = `${baseTooltip}\n\nClick to apply the shared updates`;
+  } else {
+    statusBarItem!.backgroundColor = undefined;
+    statusBarItem!.command = 'mcp-server-selector.selectEnvironment';
+    statusBarItem!.tooltip = `${baseTooltip}\n\nClick to select environment`;
+  }
+
+  if (tokenValidity) {
+    statusBarItem!.text += tokenValidity.expired ? ' $(key) expired' : ` $(key) ${tokenValidity.remaining}`;
+  }
+}
+
+/**
+ * Show (or clear, with an empty list) the warning state for live configs that
+ * no longer match the active environment
+ */
+export function setStatusBarDrift(context: vscode.ExtensionContext, files: string[]) {
+  driftedFiles = files;
+  if (statusBarItem) {
+    updateStatusBarEnvironment(context);
+  }
+}
+
+/**
+ * Show (or clear, with undefined) the countdown of a temporary switch. It is
+ * only shown while this window is on the temporary environment.
+ */
+export function setStatusBarSession(context: vscode.ExtensionContext, session: TemporarySessionDisplay | undefined) {
+  const next = session && session.envName === context.workspaceState.get<string>('mcpCurrentEnv') ? session : undefined;
+  if (!next && !temporarySession) {
+    return;
+  }
+  temporarySession = next;
+  if (statusBarItem) {
+    updateStatusBarEnvironment(context);
+  }
+}
+
+/**
+ * Show the latest per-server health check results of an environment in the hover
+ */
+export function setStatusBarHealth(context: vscode.ExtensionContext, envName: string, lines: string[]) {
+  healthLines = { envName, lines };
+  if (statusBarItem) {
+    updateStatusBarEnvironment(context);
+  }
+}
+
+/**
+ * Show (or clear, with undefined) that the shared environment source has
+ * updates that are not applied yet
+ */
+export function setStatusBarSharedUpdates(context: vscode.ExtensionContext, summary: string | undefined) {
+  if (summary === sharedUpdates) {
+    return;
+  }
+  sharedUpdates = summary;
+  if (statusBarItem) {
+    updateStatusBarEnvironment(context);
+  }
+}
+
+/**
+ * Show (or clear, with undefined) the remaining validity of the access token
+ */
+export function setStatusBarToken(context: vscode.ExtensionContext, validity: TokenValidityDisplay | undefined) {
+  if (JSON.stringify(validity) === JSON.stringify(tokenValidity)) {
+    return;
+  }
+  tokenValidity = validity;
+  if (statusBarItem) {
+    updateStatusBarEnvironment(context);
+  }
+}
+
+/**
+ * Show (or clear, with undefined) that the access token could not be
+ * registered with the IDP URL
+ */
+export function setStatusBarCredentialsError(context: vscode.ExtensionContext, message: string | undefined) {
+  if (message === credentialsError) {
+    return;
+  }
+  credentialsError = message;
+  if (statusBarItem) {
+    updateStatusBarEnvironment(context);
+  }
+}
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { EnvironmentConfig, SwitchGuardPolicy, loadEnvironmentConfiguration, resolveDangerLevel } from './environmentParser';
+import { withFileLock } from './atomicWrite';
+import { getWindowId } from './activeEnvironment';
+import { getUserHome } from './userHome';
+
+const DEFAULT_PRODUCTION_GUARD: SwitchGuardPolicy = 'confirm';
+
+/**
+ * One line of audit.log, written whenever a guarded switch is confirmed
+ */
+export interface SwitchGuardAuditEntry {
+  timestamp: string;
+  fromEnv: string | undefined;
+  toEnv: string;
+  policy: SwitchGuardPolicy;
+  dangerLevel: string;
+  user: string;
+  windowId: string;
+}
+
+export function getAuditLogPath(): string {
+  const home = getUserHome();
+  return path.join(home, '.cursor', 'mcp-selector', 'audit.log');
+}
+
+export function getProductionSwitchGuard(): SwitchGuardPolicy {
+  return vscode.workspace.getConfiguration('mcpServerSelector').get<SwitchGuardPolicy>('productionSwitchGuard', DEFAULT_PRODUCTION_GUARD);
+}
+
+/**
+ * An explicit switchGuard wins; otherwise production environments get the
+ * configured default and everything else switches freely
+ */
+export function resolveSwitchGuard(env: EnvironmentConfig, totalCount: number, productionGuard: SwitchGuardPolicy): SwitchGuardPolicy {
+  if (env.switchGuard) {
+    return env.switchGuard;
+  }
+  return resolveDangerLevel(env, totalCount) === 'production' ? productionGuard : 'none';
+}
+
+export function appendAuditEntry(entry: SwitchGuardAuditEntry): void {
+  const auditPath = getAuditLogPath();
+  withFileLock(auditPath, () => {
+    fs.mkdirSync(path.dirname(auditPath), { recursive: true });
+    fs.appendFileSync(auditPath, JSON.stringify(entry) + '\n', 'utf-8');
+  });
+}
+
+export function readAuditEntries(): SwitchGuardAuditEntry[] {
+  const auditPath = getAuditLogPath();
+  if (!fs.existsSync(auditPath)) {
+    return [];
+  }
+
+  const entries: SwitchGuardAuditEntry[] = [];
+  fs.readFileSync(auditPath, 'utf-8')
+    .split('\n')
+    .forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        console.warn(`[MCP Server Selector] Skipping unreadable audit log line ${index + 1}: ${error}`);
+      }
+    });
+  return entries;
+}
+
+async function askForConfirmation(toEnv: string, dangerLevel: string, policy: SwitchGuardPolicy): Promise<boolean> {
+  if (policy === 'typed') {
+    const typed = await vscode.window.showInputBox({
+      title: `Switch MCP to ${toEnv}`,
+      prompt: `'${toEnv}' is a ${dangerLevel} environment. Type its name to switch.`,
+      placeHolder: toEnv,
+      ignoreFocusOut: true,
+      validateInput: value => value === toEnv ? undefined : `Type '${toEnv}' exactly to continue`
+    });
+    return typed === toEnv;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `'${toEnv}' is a ${dangerLevel} environment. Switch MCP to it?`,
+    { modal: true },
+    `Switch to ${toEnv}`
+  );
+  return choice === `Switch to ${toEnv}`;
+}
+
+/**
+ * Ask for the confirmation the target environment's policy requires.
+ * Resolves to true when the switch may go ahead; confirmed guards are audited.
+ */
+export async function confirmGuardedSwitch(fromEnv: string | undefined, toEnv: string): Promise<boolean> {
+  const { environments, totalCount } = loadEnvironmentConfiguration();
+  const env = environments.find(e => e.displayName === toEnv);
+  if (!env) {
+    return true;
+  }
+
+  const policy = resolveSwitchGuard(env, totalCount, getProductionSwitchGuard());
+  if (policy === 'none') {
+    return true;
+  }
+
+  const dangerLevel = resolveDangerLevel(env, totalCount);
+  if (!(await askForConfirmation(toEnv, dangerLevel, policy))) {
+    console.log(`[MCP Server Selector] Switch to guarded environment '${toEnv}' declined`);
+    return false;
+  }
+
+  try {
+    appendAuditEntry({
+      timestamp: new Date().toISOString(),
+      fromEnv,
+      toEnv,
+      policy,
+      dangerLevel,
+      user: os.userInfo().username,
+      windowId: getWindowId()
+    });
+  } catch (error) {
+    // The user already confirmed; a failed audit write should not block the switch
+    console.error(`[MCP Server Selector] Failed to write audit entry: ${error}`);
+  }
+  return true;
+}
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { writeFileAtomic, removeFileLocked } from './atomicWrite';
+import { getUserHome } from './userHome';
+
+const DEFAULT_HISTORY_SIZE = 20;
+
+export interface FileSnapshot {
+  filePath: string;
+  content: string | null; // null when the file did not exist
+}
+
+export interface SwitchSnapshot {
+  id: string;
+  createdAt: string;
+  fromEnv: string | undefined;
+  toEnv: string;
+  files: FileSnapshot[];
+}
+
+export function getHistoryDir(): string {
+  const home = getUserHome();
+  return path.join(home, '.cursor', 'mcp-selector', 'history');
+}
+
+function getHistorySize(): number {
+  const size = vscode.workspace.getConfiguration('mcpServerSelector').get<number>('historySize', DEFAULT_HISTORY_SIZE);
+  return Math.max(1, Math.floor(size));
+}
+
+function getSnapshotPath(id: string): string {
+  return path.join(getHistoryDir(), `${id}.json`);
+}
+
+function captureFile(filePath: string): FileSnapshot {
+  return {
+    filePath,
+    content: fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null
+  };
+}
+
+/**
+ * List snapshots, newest first
+ */
+export function listSnapshots(): SwitchSnapshot[] {
+  const dir = getHistoryDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const snapshots: SwitchSnapshot[] = [];
+  fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .forEach(file => {
+      try {
+        snapshots.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+      } catch (error) {
+        console.warn(`[MCP Server Selector] Skipping unreadable history entry ${file}: ${error}`);
+      }
+    });
+
+  return snapshots.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+function pruneSnapshots(): void {
+  listSnapshots().slice(getHistorySize()).forEach(snapshot => deleteSnapshot(snapshot.id));
+}
+
+export function deleteSnapshot(id: string): void {
+  const snapshotPath = getSnapshotPath(id);
+  if (fs.existsSync(snapshotPath)) {
+    fs.unlinkSync(snapshotPath);
+  }
+}
+
+/**
+ * Snapshot the given files before they are overwritten by a switch
+ */
+export function recordSwitchSnapshot(fromEnv: string | undefined, toEnv: string, filePaths: string[]): SwitchSnapshot {
+  const dir = getHistoryDir();
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const now = new Date();
+  // Sortable id; the counter keeps ids unique for switches within the same millisecond
+  const existingIds = new Set(listSnapshots().map(snapshot => snapshot.id));
+  let id = now.toISOString().replace(/[:.]/g, '-');
+  for (let counter = 1; existingIds.has(id); counter++) {
+    id = `${now.toISOString().replace(/[:.]/g, '-')}-${counter}`;
+  }
+
+  const snapshot: SwitchSnapshot = {
+    id,
+    createdAt: now.toISOString(),
+    fromEnv,
+    toEnv,
+    files: Array.from(new Set(filePaths)).map(captureFile)
+  };
+
+  writeFileAtomic(getSnapshotPath(id), JSON.stringify(snapshot, null, 2), { verifyJson: true });
+  pruneSnapshots();
+  return snapshot;
+}
+
+/**
+ * Restore the files of a snapshot and drop it together with every newer snapshot
+ */
+export function restoreSnapshot(snapshot: SwitchSnapshot): void {
+  snapshot.files.forEach(file => {
+    if (file.content === null) {
+      removeFileLocked(file.filePath);
+      return;
+    }
+
+    writeFileAtomic(file.filePath, file.content);
+  });
+
+  listSnapshots()
+    .filter(entry => entry.id >= snapshot.id)
+    .forEach(entry => deleteSnapshot(entry.id));
+
+  console.log(`[MCP Server Selector] Restored snapshot ${snapshot.id} (${snapshot.fromEnv ?? 'unknown'})`);
+}
@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { switchToEnvironment, SwitchCancelledError } from './configManager';
+import { getAllEnvironments, getCurrentEnvironment } from './environmentConfig';
+import { readActiveEnvironmentState, syncWithActiveEnvironment, getWindowId } from './activeEnvironment';
+import { EnvironmentConfig, loadEnvironmentConfiguration, resolveDangerLevel } from './environmentParser';
+import { updateStatusBarEnvironment, setStatusBarSession, getEnvironmentIcon } from './statusBar';
+import { writeFileAtomic, withFileLock } from './atomicWrite';
+import { getUserHome } from './userHome';
+
+/**
+ * A time-boxed switch, shared by all windows so that any of them can revert
+ * it and the countdown survives reloads
+ */
+export interface TemporarySession {
+  envName: string;
+  revertTo: string;
+  startedAt: string;
+  expiresAt: string;
+  windowId: string;
+}
+
+const SESSION_TICK_MS = 1000;
+const DURATION_CHOICES_MINUTES = [5, 10, 15, 30, 60];
+const EXTEND_MINUTES = 10;
+
+let sessionTimer: NodeJS.Timeout | undefined;
+let reverting = false;
+
+export function getTemporarySessionPath(): string {
+  const home = getUserHome();
+  return path.join(home, '.cursor', 'mcp-selector', 'temporary-session.json');
+}
+
+export function readTemporarySession(): TemporarySession | undefined {
+  try {
+    const sessionPath = getTemporarySessionPath();
+    if (!fs.existsSync(sessionPath)) {
+      return undefined;
+    }
+
+    const session = JSON.parse(fs.readFileSync(sessionPath, 'utf-8'));
+    return session && typeof session.envName === 'string' && typeof session.expiresAt === 'string' ? session : undefined;
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not read temporary session: ${error}`);
+    return undefined;
+  }
+}
+
+export function writeTemporarySession(session: TemporarySession): void {
+  writeFileAtomic(getTemporarySessionPath(), JSON.stringify(session, null, 2), { verifyJson: true });
+}
+
+/**
+ * Remove the session file if it still holds this session. Returns false when
+ * another window already ended or replaced it, so only one window reverts.
+ */
+export function endTemporarySession(session: TemporarySession): boolean {
+  const sessionPath = getTemporarySessionPath();
+  return withFileLock(sessionPath, () => {
+    const current = readTemporarySession();
+    if (!current || current.startedAt !== session.startedAt) {
+      return false;
+    }
+    fs.unlinkSync(sessionPath);
+    return true;
+  });
+}
+
+/**
+ * Move the expiry of a session that is still running (another window may have ended it)
+ */
+function rescheduleTemporarySession(session: TemporarySession, getExpiry: (current: TemporarySession) => number): TemporarySession | undefined {
+  return withFileLock(getTemporarySessionPath(), () => {
+    const current = readTemporarySession();
+    if (!current || current.startedAt !== session.startedAt) {
+      return undefined;
+    }
+    const updated = { ...current, expiresAt: new Date(getExpiry(current)).toISOString() };
+    writeTemporarySession(updated);
+    return updated;
+  });
+}
+
+/**
+ * Follow a renamed environment so the running session is not mistaken for
+ * one that was left
+ */
+export function renameTemporarySessionEnvironment(oldName: string, newName: string): void {
+  withFileLock(getTemporarySessionPath(), () => {
+    const current = readTemporarySession();
+    if (current && (current.envName === oldName || current.revertTo === oldName)) {
+      writeTemporarySession({
+        ...current,
+        envName: current.envName === oldName ? newName : current.envName,
+        revertTo: current.revertTo === oldName ? newName : current.revertTo
+      });
+    }
+  });
+}
+
+/**
+ * The first environment marked safe, or the first one when none is
+ */
+export function getSafestEnvironment(environments: EnvironmentConfig[], totalCount: number): string | undefined {
+  const safe = environments.find(env => resolveDangerLevel(env, totalCount) === 'safe');
+  return (safe ?? environments[0])?.displayName;
+}
+
+/**
+ * Revert to the previous environment while it still exists and differs from
+ * the temporary one; otherwise fall back to the safest environment
+ */
+export function resolveRevertTarget(environments: EnvironmentConfig[], totalCount: number, previousEnv: string | undefined, temporaryEnv: string): string | undefined {
+  if (previousEnv && previousEnv !== temporaryEnv && environments.some(env => env.displayName === previousEnv)) {
+    return previousEnv;
+  }
+  return getSafestEnvironment(environments, totalCount);
+}
+
+/**
+ * Countdown text for the status bar, e.g. 9:05 or 1:02:00
+ */
+export function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+async function revertTemporarySession(context: vscode.ExtensionContext, session: TemporarySession): Promise<void> {
+  // The temporary switch may have been made in another window
+  syncWithActiveEnvironment(context, getAllEnvironments());
+
+  const { environments, totalCount } = loadEnvironmentConfiguration();
+  const revertTo = resolveRevertTarget(environments, totalCount, session.revertTo, session.envName);
+  if (!revertTo) {
+    return;
+  }
+
+  try {
+    const success = await switchToEnvironment(context, revertTo);
+    updateStatusBarEnvironment(context);
+    if (success) {
+      vscode.window.showInformationMessage(`Temporary MCP switch to ${session.envName} ended, reverted to ${revertTo}`);
+    } else {
+      vscode.window.showErrorMessage(`Temporary MCP switch to ${session.envName} ended, but reverting to ${revertTo} failed`);
+    }
+  } catch (error) {
+    if (error instanceof SwitchCancelledError) {
+      vscode.window.showInformationMessage(error.message);
+      return;
+    }
+    vscode.window.showErrorMessage(`Error reverting to ${revertTo}: ${error}`);
+  }
+}
+
+/**
+ * Update the countdown, drop sessions that were switched away from by hand
+ * and revert expired ones
+ */
+function checkTemporarySession(context: vscode.ExtensionContext): void {
+  const session = readTemporarySession();
+  if (!session || reverting) {
+    setStatusBarSession(context, undefined);
+    return;
+  }
+
+  const active = readActiveEnvironmentState();
+  if (active && active.envName !== session.envName) {
+    endTemporarySession(session);
+    setStatusBarSession(context, undefined);
+    console.log(`[MCP Server Selector] Switched away from temporary environment '${session.envName}', auto-revert cancelled`);
+    return;
+  }
+
+  const remainingMs = Date.parse(session.expiresAt) - Date.now();
+  if (remainingMs > 0) {
+    setStatusBarSession(context, { envName: session.envName, revertTo: session.revertTo, expiresAt: session.expiresAt, remaining: formatRemaining(remainingMs) });
+    return;
+  }
+
+  setStatusBarSession(context, undefined);
+  if (endTemporarySession(session)) {
+    reverting = true;
+    revertTemporarySession(context, session).finally(() => {
+      reverting = false;
+    });
+  }
+}
+
+/**
+ * Start the countdown; a session that expired while no window was open is reverted right away
+ */
+export function startTemporarySessionTimer(context: vscode.ExtensionContext): void {
+  stopTemporarySessionTimer();
+  checkTemporarySession(context);
+  sessionTimer = setInterval(() => checkTemporarySession(context), SESSION_TICK_MS);
+}
+
+export function stopTemporarySessionTimer(): void {
+  if (sessionTimer) {
+    clearInterval(sessionTimer);
+    sessionTimer = undefined;
+  }
+}
+
+async function pickDurationMinutes(envName: string): Promise<number | undefined> {
+  const pick = await vscode.window.showQuickPick(
+    [
+      ...DURATION_CHOICES_MINUTES.map(minutes => ({ label: `${minutes} minutes`, minutes })),
+      { label: 'Custom...', minutes: undefined }
+    ],
+    { placeHolder: `Switch to ${envName} for...` }
+  );
+  if (!pick || pick.minutes !== undefined) {
+    return pick?.minutes;
+  }
+
+  const input = await vscode.window.showInputBox({
+    prompt: `Minutes to stay on ${envName}`,
+    validateInput: value => Number(value) > 0 ? undefined : 'Enter a positive number of minutes'
+  });
+  return input ? Number(input) : undefined;
+}
+
+export async function switchTemporarily(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const currentEnv = getCurrentEnvironment(context);
+    const candidates = getAllEnvironments().filter(env => env !== currentEnv);
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage('No other MCP environments to switch to');
+      return;
+    }
+
+    const envPick = await vscode.window.showQuickPick(
+      candidates.map(env => ({ label: `${getEnvironmentIcon(env)} ${env}`, env })),
+      { placeHolder: 'Switch temporarily to...' }
+    );
+    if (!envPick) {
+      return;
+    }
+
+    const minutes = await pickDurationMinutes(envPick.env);
+    if (minutes === undefined) {
+      return;
+    }
+
+    // Chained temporary switches still return to where the first one started
+    const { environments, totalCount } = loadEnvironmentConfiguration();
+    const revertTo = resolveRevertTarget(environments, totalCount, readTemporarySession()?.revertTo ?? currentEnv, envPick.env);
+    if (!revertTo) {
+      return;
+    }
+
+    const success = await switchToEnvironment(context, envPick.env);
+    updateStatusBarEnvironment(context);
+    if (!success) {
+      vscode.window.showErrorMessage(`Failed to switch to ${envPick.env}. Check if config file exists.`);
+      return;
+    }
+
+    const startedAt = new Date();
+    const expiresAt = new Date(startedAt.getTime() + minutes * 60000);
+    writeTemporarySession({
+      envName: envPick.env,
+      revertTo,
+      startedAt: startedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      windowId: getWindowId()
+    });
+    checkTemporarySession(context);
+
+    vscode.window.showInformationMessage(`Switched MCP environment to ${envPick.env} until ${expiresAt.toLocaleTimeString()}, then back to ${revertTo}`);
+  } catch (error) {
+    if (error instanceof SwitchCancelledError) {
+      vscode.window.showInformationMessage(error.message);
+      return;
+    }
+    console.error('[MCP Selector] Error in switchTemporarily:', error);
+    vscode.window.showErrorMessage(`Error switching temporarily: ${error}`);
+  }
+}
+
+/**
+ * Command handler for the status bar countdown
+ */
+export async function manageTemporarySwitch(context: vscode.ExtensionContext): Promise<void> {
+  const session = readTemporarySession();
+  if (!session) {
+    vscode.window.showInformationMessage('No temporary MCP switch is running');
+    return;
+  }
+
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: `Revert to ${session.revertTo} now`, action: 'revert' },
+      { label: `Extend by ${EXTEND_MINUTES} minutes`, action: 'extend' },
+      { label: `Stay on ${session.envName}`, description: 'Cancel the automatic revert', action: 'keep' }
+    ],
+    { placeHolder: `${session.envName} reverts at ${new Date(session.expiresAt).toLocaleTimeString()}` }
+  );
+
+  switch (pick?.action) {
+    case 'revert':
+      rescheduleTemporarySession(session, () => Date.now());
+      checkTemporarySession(context);
+      break;
+    case 'extend': {
+      const extended = rescheduleTemporarySession(session, current => Math.max(Date.parse(current.expiresAt), Date.now()) + EXTEND_MINUTES * 60000);
+      checkTemporarySession(context);
+      if (extended) {
+        vscode.window.showInformationMessage(`${session.envName} now reverts at ${new Date(extended.expiresAt).toLocaleTimeString()}`);
+      }
+      break;
+    }
+    case 'keep':
+      endTemporarySession(session);
+      checkTemporarySession(context);
+      vscode.window.showInformationMessage(`Staying on ${session.envName}`);
+      break;
+  }
+}
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { writeFileAtomic, withFileLock, AtomicWriteError } from '../atomicWrite';
+
+suite('Atomic Write Tests', () => {
+
+  const testDir = path.join(os.tmpdir(), 'mcp-atomic-test-' + Date.now());
+  const filePath = path.join(testDir, 'nested', 'mcp.json');
+
+  teardown(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test('Write creates directories and leaves no temp or lock files', () => {
+    writeFileAtomic(filePath, '{"mcpServers":{}}', { verifyJson: true });
+
+    assert.strictEqual(fs.readFileSync(filePath, 'utf-8'), '{"mcpServers":{}}');
+    assert.deepStrictEqual(fs.readdirSync(path.dirname(filePath)), ['mcp.json']);
+  });
+
+  test('Refuse invalid JSON without touching the existing file', () => {
+    writeFileAtomic(filePath, '{"a":1}');
+
+    assert.throws(() => writeFileAtomic(filePath, '{"a":', { verifyJson: true }), AtomicWriteError);
+    assert.strictEqual(fs.readFileSync(filePath, 'utf-8'), '{"a":1}');
+  });
+
+  test('Locks are re-entrant and released afterwards', () => {
+    withFileLock(filePath, () => {
+      assert.ok(fs.existsSync(`${filePath}.lock`));
+      writeFileAtomic(filePath, 'nested');
+    });
+
+    assert.strictEqual(fs.existsSync(`${filePath}.lock`), false);
+    assert.strictEqual(fs.readFileSync(filePath, 'utf-8'), 'nested');
+  });
+});
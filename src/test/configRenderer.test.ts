@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { mergeConfigValues, renderConfigFile, ConfigRenderError } from '../configRenderer';
+
+suite('Config Renderer Tests', () => {
+
+  const testDir = path.join(os.tmpdir(), 'mcp-render-test-' + Date.now());
+
+  function writeConfig(name: string, content: object): string {
+    const filePath = path.join(testDir, name);
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  }
+
+  setup(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  teardown(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  suite('mergeConfigValues', () => {
+    test('Deep merge nested objects', () => {
+      const result = mergeConfigValues(
+        { mcpServers: { api: { url: 'https://dev', headers: { A: '1' } } } },
+        { mcpServers: { api: { headers: { B: '2' } } } }
+      );
+
+      assert.deepStrictEqual(result, { mcpServers: { api: { url: 'https://dev', headers: { A: '1', B: '2' } } } });
+    });
+
+    test('Null deletes inherited keys', () => {
+      const result = mergeConfigValues({ mcpServers: { a: {}, b: {} } }, { mcpServers: { b: null } });
+
+      assert.deepStrictEqual(result, { mcpServers: { a: {} } });
+    });
+
+    test('Arrays replace unless $append is used', () => {
+      assert.deepStrictEqual(mergeConfigValues({ args: ['a'] }, { args: ['b'] }), { args: ['b'] });
+      assert.deepStrictEqual(mergeConfigValues({ args: ['a'] }, { args: { $append: ['b'] } }), { args: ['a', 'b'] });
+    });
+
+    test('$replace skips merging', () => {
+      const result = mergeConfigValues({ env: { A: '1' } }, { env: { $replace: { B: '2' } } });
+
+      assert.deepStrictEqual(result, { env: { B: '2' } });
+    });
+  });
+
+  suite('renderConfigFile', () => {
+    test('Apply base, mixins and own values in order', () => {
+      writeConfig('base.json', { mcpServers: { api: { type: 'http', url: 'https://base' }, docs: { command: 'docs' } } });
+      writeConfig('auth.json', { mcpServers: { api: { headers: { API_KEY: 'access_token_template' } } } });
+      const envPath = writeConfig('mcp-dev.json', {
+        extends: 'base',
+        mixins: ['auth.json'],
+        mcpServers: { api: { url: 'https://dev' }, docs: null }
+      });
+
+      assert.deepStrictEqual(renderConfigFile(envPath), {
+        mcpServers: { api: { type: 'http', url: 'https://dev', headers: { API_KEY: 'access_token_template' } } }
+      });
+    });
+
+    test('Detect circular inheritance', () => {
+      writeConfig('a.json', { extends: 'b' });
+      const bPath = writeConfig('b.json', { extends: 'a' });
+
+      assert.throws(() => renderConfigFile(bPath), ConfigRenderError);
+    });
+
+    test('Report missing base file', () => {
+      const envPath = writeConfig('mcp-dev.json', { extends: 'missing' });
+
+      assert.throws(() => renderConfigFile(envPath), /does not exist/);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { AddressInfo } from 'net';
+import { CredentialsDeliveryError, isRetryableStatus, computeBackoffDelay, deliverCredentials, issueAccessToken } from '../credentialsSender';
+import { getCursorMcpPath, getCursorIdpUrlPath } from '../environmentConfig';
+import { switchToEnvironment } from '../configManager';
+import { storeAccessToken } from '../secretStore';
+import { readTokenState } from '../tokenLifecycle';
+import { getEnvironmentPropsPath } from '../environmentParser';
+
+suite('Credentials Sender Tests', () => {
+
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+
+  test('Classify HTTP statuses', () => {
+    for (const status of [408, 425, 429, 500, 502, 503, 504]) {
+      assert.strictEqual(isRetryableStatus(status), true, `${status}`);
+    }
+    for (const status of [301, 400, 401, 403, 404, 422]) {
+      assert.strictEqual(isRetryableStatus(status), false, `${status}`);
+    }
+  });
+
+  test('Backoff grows exponentially up to the cap, with jitter', () => {
+    assert.strictEqual(computeBackoffDelay(0, 1000, 30000, () => 0), 500);
+    assert.strictEqual(computeBackoffDelay(0, 1000, 30000, () => 1), 1000);
+    assert.strictEqual(computeBackoffDelay(3, 1000, 30000, () => 1), 8000);
+    assert.strictEqual(computeBackoffDelay(10, 1000, 30000, () => 0.5), 22500);
+  });
+
+  test('Retry retryable failures and stop at fatal ones', async () => {
+    let attempts = 0;
+    await deliverCredentials(context, 'https://idp.example.com', {}, 'token', async () => {
+      attempts++;
+      if (attempts < 3) {
+        throw new CredentialsDeliveryError('HTTP 503', true, 503);
+      }
+    }, 1);
+    assert.strictEqual(attempts, 3);
+
+    attempts = 0;
+    await assert.rejects(
+      deliverCredentials(context, 'https://idp.example.com', {}, 'token', async () => {
+        attempts++;
+        throw new CredentialsDeliveryError('HTTP 401', false, 401);
+      }, 1),
+      /HTTP 401/
+    );
+    assert.strictEqual(attempts, 1);
+
+    attempts = 0;
+    await assert.rejects(
+      deliverCredentials(context, 'https://idp.example.com', {}, 'token', async () => {
+        attempts++;
+        throw new CredentialsDeliveryError('Request timeout', true);
+      }, 1),
+      /Request timeout/
+    );
+    assert.strictEqual(attempts, 4);
+  });
+});
+
+suite('Access Token Issue Tests', () => {
+
+  const testHome = path.join(os.tmpdir(), 'mcp-issue-test-' + Date.now());
+  const secrets = new Map<string, string>();
+  const context = {
+    subscriptions: [],
+    workspaceState: { get: () => 'Dev', update: async () => undefined },
+    secrets: {
+      get: async (key: string) => secrets.get(key),
+      store: async (key: string, value: string) => { secrets.set(key, value); }
+    }
+  } as unknown as vscode.ExtensionContext;
+
+  let server: http.Server;
+  let idpStatus = 200;
+  let registered: string | undefined;
+
+  suiteSetup(done => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        if (idpStatus === 200) {
+          registered = JSON.parse(body).token;
+        }
+        res.statusCode = idpStatus;
+        res.end();
+      });
+    });
+    server.listen(0, '127.0.0.1', () => done());
+  });
+
+  suiteTeardown(done => {
+    server.close(() => done());
+  });
+
+  setup(() => {
+    process.env.MCP_SELECTOR_HOME = testHome;
+    const envsDir = path.join(testHome, '.cursor', 'mcp-selector', 'envs');
+    fs.mkdirSync(envsDir, { recursive: true });
+    fs.writeFileSync(getEnvironmentPropsPath(), 'Dev:mcp-dev\n');
+    fs.writeFileSync(path.join(envsDir, 'mcp-dev.json'), JSON.stringify({ mcpServers: { api: { url: 'https://api.example.com', headers: { Authorization: 'Bearer ${token}' } } } }));
+    fs.writeFileSync(getCursorIdpUrlPath(), `http://127.0.0.1:${(server.address() as AddressInfo).port}/register`);
+    fs.writeFileSync(getCursorMcpPath(), JSON.stringify({ mcpServers: { api: { url: 'https://api.example.com', headers: { Authorization: 'Bearer previous-token' } } } }));
+  });
+
+  teardown(() => {
+    delete process.env.MCP_SELECTOR_HOME;
+    if (fs.existsSync(testHome)) {
+      fs.rmSync(testHome, { recursive: true, force: true });
+    }
+  });
+
+  test('Keep the previous token in mcp.json when the IDP rejects the new one', async () => {
+    idpStatus = 401;
+    await assert.rejects(issueAccessToken(context), /status 401/);
+    assert.ok(fs.readFileSync(getCursorMcpPath(), 'utf-8').includes('Bearer previous-token'));
+  });
+
+  test('Do not record a token as issued when mcp.json cannot be updated', async () => {
+    idpStatus = 200;
+    fs.rmSync(path.join(testHome, '.cursor', 'mcp-selector', 'envs', 'mcp-dev.json'));
+
+    await assert.rejects(issueAccessToken(context), /could not be written/);
+    assert.strictEqual(readTokenState().issuedAt, undefined);
+    assert.ok(fs.readFileSync(getCursorMcpPath(), 'utf-8').includes('Bearer previous-token'));
+  });
+
+  test('Write the token into mcp.json once the IDP registered it', async () => {
+    idpStatus = 200;
+    const token = await issueAccessToken(context);
+
+    assert.ok(token);
+    assert.strictEqual(registered, token);
+    assert.ok(fs.readFileSync(getCursorMcpPath(), 'utf-8').includes(`Bearer ${token}`));
+  });
+
+  test('Apply the stored token on switch and register a new one in the background', async () => {
+    idpStatus = 200;
+    registered = undefined;
+    const envsDir = path.join(testHome, '.cursor', 'mcp-selector', 'envs');
+    fs.writeFileSync(path.join(envsDir, 'mcp-dev-idp-url.txt'), fs.readFileSync(getCursorIdpUrlPath(), 'utf-8'));
+    fs.writeFileSync(getCursorMcpPath(), JSON.stringify({ mcpServers: {} }));
+    await storeAccessToken(context, 'stored-token');
+
+    assert.ok(await switchToEnvironment(context, 'Dev'));
+    assert.ok(fs.readFileSync(getCursorMcpPath(), 'utf-8').includes('Bearer stored-token'));
+
+    for (let i = 0; i < 100 && !fs.readFileSync(getCursorMcpPath(), 'utf-8').includes(`Bearer ${registered}`); i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    assert.ok(registered);
+    assert.ok(fs.readFileSync(getCursorMcpPath(), 'utf-8').includes(`Bearer ${registered}`));
+  });
+});
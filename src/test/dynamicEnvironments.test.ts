@@ -10,17 +10,16 @@ import {
   detectLegacyConfiguration,
   migrateLegacyConfiguration
 } from '../environmentParser';
-import { getAllEnvironments, getConfigFileBase } from '../configManager';
+import { getAllEnvironments, getConfigFileBase } from '../environmentConfig';
 import { getDefaultEnvironment } from '../statusBar';
 
 suite('Dynamic Environment Integration Tests', () => {
   
   const testMcpDir = path.join(os.tmpdir(), 'mcp-test-' + Date.now());
-  const originalHomedir = os.homedir;
   
   setup(() => {
-    // Mock os.homedir to point to test directory
-    (os as any).homedir = () => path.dirname(testMcpDir);
+    // Point the selector's home directory at the test directory
+    process.env.MCP_SELECTOR_HOME = path.dirname(testMcpDir);
     
     // Create test directory
     const mcpTestDir = path.join(testMcpDir, '.mcp');
@@ -30,8 +29,8 @@ suite('Dynamic Environment Integration Tests', () => {
   });
   
   teardown(() => {
-    // Restore original homedir
-    (os as any).homedir = originalHomedir;
+    // Restore the real home directory
+    delete process.env.MCP_SELECTOR_HOME;
     
     // Clean up test directory
     if (fs.existsSync(testMcpDir)) {
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { summarizeServerChanges, formatServerChangeSummary, toMaskedConfigText } from '../environmentDiff';
+import { TOKEN_PLACEHOLDER } from '../interpolation';
+
+suite('Environment Diff Tests', () => {
+
+  test('Summarize added, removed and changed servers ignoring tokens', () => {
+    const live = {
+      mcpServers: {
+        api: { url: 'https://dev', headers: { API_KEY: '1234-abcd' } },
+        docs: { command: 'docs' },
+        legacy: { command: 'legacy' }
+      }
+    };
+    const candidate = {
+      mcpServers: {
+        api: { url: 'https://dev', headers: { API_KEY: TOKEN_PLACEHOLDER } },
+        docs: { command: 'docs', args: ['--prod'] },
+        search: { url: 'https://search' }
+      }
+    };
+
+    const summary = summarizeServerChanges(live, candidate);
+
+    assert.deepStrictEqual(summary, { added: ['search'], removed: ['legacy'], changed: ['docs'], unchanged: ['api'] });
+    assert.strictEqual(formatServerChangeSummary(summary), 'added: search; removed: legacy; changed: docs');
+  });
+
+  test('Mask tokens and stored secrets in the diff text', () => {
+    const text = toMaskedConfigText(
+      { mcpServers: { api: { url: 'https://dev?token=live-token', headers: { Authorization: 'Bearer s3cret-key' } } } },
+      ['live-token'],
+      { 'api-key': 's3cret-key' }
+    );
+
+    assert.ok(text.includes('token=<token>'));
+    assert.ok(text.includes('Bearer ${secret:api-key}'));
+    assert.ok(!text.includes('s3cret'));
+    assert.strictEqual(toMaskedConfigText(undefined, [], {}), '');
+  });
+
+  test('Treat a missing live config as empty', () => {
+    const summary = summarizeServerChanges(undefined, { mcpServers: { api: {} } });
+
+    assert.deepStrictEqual(summary.added, ['api']);
+    assert.strictEqual(formatServerChangeSummary({ added: [], removed: [], changed: [], unchanged: ['api'] }), 'no server changes');
+  });
+});
@@ -0,0 +1,185 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  findPropsEntryIndex,
+  duplicateEnvironmentConfig,
+  deleteEnvironmentConfig,
+  addEnvironmentConfig,
+  renameEnvironmentConfig,
+  moveEnvironmentConfig,
+  canMoveConfigFiles,
+  getDeletionFallback,
+  suggestConfigBase,
+  validateEnvironmentName
+} from '../environmentEditor';
+import { getDisabledServers, setDisabledServers } from '../serverSelection';
+import { getEnvironmentPropsPath, getEnvironmentManifestPath, loadEnvironmentConfiguration } from '../environmentParser';
+
+suite('Environment Editor Tests', () => {
+
+  const testHome = path.join(os.tmpdir(), 'mcp-editor-test-' + Date.now());
+  const envsDir = () => path.join(testHome, '.cursor', 'mcp-selector', 'envs');
+
+  const readProps = () => fs.readFileSync(getEnvironmentPropsPath(), 'utf-8');
+
+  const writeEnvFile = (fileName: string, content: object) => {
+    fs.writeFileSync(path.join(envsDir(), fileName), JSON.stringify(content, null, 2));
+  };
+
+  setup(() => {
+    process.env.MCP_SELECTOR_HOME = testHome;
+    fs.mkdirSync(envsDir(), { recursive: true });
+    fs.writeFileSync(getEnvironmentPropsPath(), [
+      '# MCP environments',
+      'Local:mcp-local',
+      '',
+      '# Shared',
+      'Dev:mcp-dev',
+      'Prod:mcp-prod',
+      ''
+    ].join('\n'));
+    writeEnvFile('mcp-local.json', { mcpServers: { local: { command: 'node' } } });
+    writeEnvFile('mcp-dev.json', { mcpServers: { dev: { url: 'https://dev.example.com/mcp' } } });
+    writeEnvFile('mcp-prod.json', { extends: 'mcp-dev.json', mcpServers: {} });
+    fs.writeFileSync(path.join(envsDir(), 'mcp-dev-idp-url.txt'), 'https://idp.dev.example.com');
+  });
+
+  teardown(() => {
+    delete process.env.MCP_SELECTOR_HOME;
+    if (fs.existsSync(testHome)) {
+      fs.rmSync(testHome, { recursive: true, force: true });
+    }
+  });
+
+  test('Find the props line of an environment', () => {
+    const lines = ['# Local:commented', ' Local : mcp-local', 'Dev:mcp-dev'];
+    assert.strictEqual(findPropsEntryIndex(lines, 'Local'), 1);
+    assert.strictEqual(findPropsEntryIndex(lines, 'Dev'), 2);
+    assert.strictEqual(findPropsEntryIndex(lines, 'Prod'), -1);
+  });
+
+  test('Duplicate next to the source and keep comments', () => {
+    const newName = duplicateEnvironmentConfig('Dev');
+
+    assert.strictEqual(newName, 'Dev Copy');
+    assert.strictEqual(fs.readFileSync(getEnvironmentPropsPath(), 'utf-8'), [
+      '# MCP environments',
+      'Local:mcp-local',
+      '',
+      '# Shared',
+      'Dev:mcp-dev',
+      'Dev Copy:mcp-dev-copy',
+      'Prod:mcp-prod',
+      ''
+    ].join('\n'));
+    assert.deepStrictEqual(
+      JSON.parse(fs.readFileSync(path.join(envsDir(), 'mcp-dev-copy.json'), 'utf-8')),
+      { mcpServers: { dev: { url: 'https://dev.example.com/mcp' } } }
+    );
+    assert.strictEqual(fs.readFileSync(path.join(envsDir(), 'mcp-dev-copy-idp-url.txt'), 'utf-8'), 'https://idp.dev.example.com');
+    assert.strictEqual(duplicateEnvironmentConfig('Dev'), 'Dev Copy 2');
+  });
+
+  test('Duplicate the last environment before it and pin its level in a manifest', () => {
+    fs.writeFileSync(getEnvironmentManifestPath(), JSON.stringify({
+      version: 1,
+      environments: [
+        { displayName: 'Local', configFile: 'mcp-local' },
+        { displayName: 'Prod', configFile: 'mcp-prod' }
+      ]
+    }));
+
+    duplicateEnvironmentConfig('Prod');
+
+    const { environments } = loadEnvironmentConfiguration();
+    assert.deepStrictEqual(environments.map(env => env.displayName), ['Local', 'Prod Copy', 'Prod']);
+    assert.strictEqual(environments[1].dangerLevel, 'production');
+  });
+
+  test('Delete an environment but keep files others extend', () => {
+    deleteEnvironmentConfig('Local');
+    assert.ok(!fs.existsSync(path.join(envsDir(), 'mcp-local.json')));
+
+    const keptFiles = deleteEnvironmentConfig('Dev');
+    assert.deepStrictEqual(keptFiles, [path.join(envsDir(), 'mcp-dev.json')]);
+    assert.ok(!fs.existsSync(path.join(envsDir(), 'mcp-dev-idp-url.txt')));
+    assert.strictEqual(fs.readFileSync(getEnvironmentPropsPath(), 'utf-8'), '# MCP environments\n\n# Shared\nProd:mcp-prod\n');
+
+    assert.throws(() => deleteEnvironmentConfig('Prod'), /only environment/);
+  });
+
+  test('Keep a file referenced without its .json extension', () => {
+    writeEnvFile('mcp-prod.json', { extends: 'mcp-dev', mcpServers: {} });
+
+    const keptFiles = deleteEnvironmentConfig('Dev');
+    assert.deepStrictEqual(keptFiles, [path.join(envsDir(), 'mcp-dev.json')]);
+    assert.ok(fs.existsSync(path.join(envsDir(), 'mcp-dev.json')));
+  });
+
+  test('Pick the fallback before deleting and refuse the last environment', () => {
+    assert.strictEqual(getDeletionFallback('Local'), 'Dev');
+    assert.strictEqual(getDeletionFallback('Prod'), 'Local');
+
+    fs.writeFileSync(getEnvironmentPropsPath(), 'Local:mcp-local\n');
+    assert.throws(() => getDeletionFallback('Local'), /only environment/);
+    assert.throws(() => getDeletionFallback('Missing'), /Unknown environment/);
+  });
+
+  test('Validate and suggest names', () => {
+    const { environments } = loadEnvironmentConfiguration();
+    assert.strictEqual(validateEnvironmentName('QA East', environments), undefined);
+    assert.ok(validateEnvironmentName('Dev', environments));
+    assert.strictEqual(validateEnvironmentName('Dev', environments, 'Dev'), undefined);
+    assert.ok(validateEnvironmentName('a:b', environments));
+    assert.ok(validateEnvironmentName('  ', environments));
+    assert.strictEqual(suggestConfigBase('QA East!', environments), 'mcp-qa-east');
+    assert.strictEqual(suggestConfigBase('Dev', environments), 'mcp-dev-2');
+  });
+
+  test('Add an environment at a chosen position', () => {
+    addEnvironmentConfig({ displayName: 'QA', configBase: 'mcp-qa', idpUrl: 'https://idp.qa.example.com', before: 'Prod' });
+    addEnvironmentConfig({ displayName: 'Sandbox', configBase: 'mcp-sandbox.json' });
+
+    assert.strictEqual(readProps(), '# MCP environments\nLocal:mcp-local\n\n# Shared\nDev:mcp-dev\nQA:mcp-qa\nProd:mcp-prod\nSandbox:mcp-sandbox\n');
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(envsDir(), 'mcp-qa.json'), 'utf-8')), { mcpServers: {} });
+    assert.strictEqual(fs.readFileSync(path.join(envsDir(), 'mcp-qa-idp-url.txt'), 'utf-8'), 'https://idp.qa.example.com');
+    assert.ok(!fs.existsSync(path.join(envsDir(), 'mcp-sandbox-idp-url.txt')));
+    assert.throws(() => addEnvironmentConfig({ displayName: 'Other', configBase: 'mcp-qa' }), /already used/);
+  });
+
+  test('Rename an environment with its files and server selection', () => {
+    setDisabledServers('Local', ['local']);
+    assert.ok(canMoveConfigFiles('Local', 'mcp-laptop'));
+    assert.ok(!canMoveConfigFiles('Dev', 'mcp-shared'), 'Prod extends the Dev file');
+
+    renameEnvironmentConfig('Local', 'Laptop', 'mcp-laptop');
+
+    assert.ok(readProps().includes('\nLaptop:mcp-laptop\n'));
+    assert.ok(fs.existsSync(path.join(envsDir(), 'mcp-laptop.json')));
+    assert.ok(!fs.existsSync(path.join(envsDir(), 'mcp-local.json')));
+    assert.deepStrictEqual(getDisabledServers('Laptop'), ['local']);
+    assert.deepStrictEqual(getDisabledServers('Local'), []);
+
+    renameEnvironmentConfig('Dev', 'Development');
+    assert.ok(readProps().includes('\nDevelopment:mcp-dev\n'));
+    assert.ok(fs.existsSync(path.join(envsDir(), 'mcp-dev-idp-url.txt')));
+  });
+
+  test('Keep the file name when a reference omits the .json extension', () => {
+    writeEnvFile('mcp-prod.json', { mixins: ['./mcp-dev'], mcpServers: {} });
+
+    assert.ok(!canMoveConfigFiles('Dev', 'mcp-shared'), 'Prod mixes in the Dev file');
+    assert.throws(() => renameEnvironmentConfig('Dev', 'Shared', 'mcp-shared'), /Cannot move/);
+    assert.ok(fs.existsSync(path.join(envsDir(), 'mcp-dev.json')));
+  });
+
+  test('Reorder environments without moving comments', () => {
+    moveEnvironmentConfig('Prod', 'Local');
+    assert.strictEqual(readProps(), '# MCP environments\nProd:mcp-prod\nLocal:mcp-local\n\n# Shared\nDev:mcp-dev\n');
+
+    moveEnvironmentConfig('Prod', undefined);
+    assert.deepStrictEqual(loadEnvironmentConfiguration().environments.map(env => env.displayName), ['Local', 'Dev', 'Prod']);
+  });
+});
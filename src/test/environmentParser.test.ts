@@ -7,6 +7,10 @@ import {
   validateEnvironmentProps,
   validateEnvironmentConfig,
   loadEnvironmentConfiguration,
+  parseEnvironmentManifest,
+  validateEnvironmentManifest,
+  convertPropsToManifest,
+  resolveDangerLevel,
   EnvironmentConfig,
   EnvironmentConfigError
 } from '../environmentParser';
@@ -198,6 +202,98 @@ Prod:mcp-prod`;
   });
 });
 
+suite('Environment Manifest Tests', () => {
+  
+  const manifestContent = JSON.stringify({
+    version: 1,
+    environments: [
+      { displayName: 'Local', configFile: 'mcp-local', dangerLevel: 'safe', tags: ['docker'] },
+      { displayName: 'Prod', configFile: 'mcp-prod.json', dangerLevel: 'production', description: 'Live servers', owner: 'platform-team', color: '#990000', icon: 'flame' }
+    ]
+  });
+
+  test('Parse manifest with metadata', () => {
+    const result = parseEnvironmentManifest(manifestContent);
+    
+    assert.strictEqual(result.totalCount, 2);
+    assert.strictEqual(result.environments[0].configFileName, 'mcp-local.json');
+    assert.deepStrictEqual(result.environments[0].tags, ['docker']);
+    assert.strictEqual(result.environments[1].configFileName, 'mcp-prod.json');
+    assert.strictEqual(result.environments[1].position, 1);
+    assert.strictEqual(result.environments[1].description, 'Live servers');
+    assert.strictEqual(result.environments[1].owner, 'platform-team');
+    assert.strictEqual(result.environments[1].dangerLevel, 'production');
+  });
+
+  test('Throw EnvironmentConfigError on malformed JSON', () => {
+    assert.throws(() => parseEnvironmentManifest('{ not json'), EnvironmentConfigError);
+  });
+
+  test('Validate correct manifest', () => {
+    const validation = validateEnvironmentManifest(manifestContent);
+    
+    assert.strictEqual(validation.isValid, true);
+    assert.strictEqual(validation.errors.length, 0);
+  });
+
+  test('Detect invalid danger level and duplicates', () => {
+    const content = JSON.stringify({
+      environments: [
+        { displayName: 'Local', configFile: 'mcp-local', dangerLevel: 'scary' },
+        { displayName: 'Local', configFile: 'mcp-local.json' }
+      ]
+    });
+    const validation = validateEnvironmentManifest(content);
+    
+    assert.strictEqual(validation.isValid, false);
+    assert.ok(validation.errors.some(e => e.includes('Invalid danger level')));
+    assert.ok(validation.errors.some(e => e.includes('Duplicate display name')));
+    assert.ok(validation.errors.some(e => e.includes('Duplicate config file')));
+  });
+
+  test('Validate IDP TLS settings', () => {
+    const content = JSON.stringify({
+      environments: [
+        { displayName: 'Dev', configFile: 'mcp-dev', idpTls: { ca: 'certs/ca.pem', cert: 'client.pem', key: 'client.key', passphrase: '${secret:key}' } },
+        { displayName: 'Prod', configFile: 'mcp-prod', idpTls: { cert: 'client.pem', pfx: 'client.p12' } }
+      ]
+    });
+    const validation = validateEnvironmentManifest(content);
+
+    assert.strictEqual(parseEnvironmentManifest(content).environments[0].idpTls?.ca, 'certs/ca.pem');
+    assert.deepStrictEqual(validation.errors, ['Environment 2: idpTls needs both cert and key for a client certificate']);
+    assert.ok(validation.warnings.some(w => w.includes("Unknown idpTls setting 'pfx'")));
+  });
+
+  test('Convert props to manifest preserving position-based danger', () => {
+    const manifest = convertPropsToManifest('# comment\nLocal:mcp-local\nDev:mcp-dev.json\nProd:mcp-prod');
+    
+    assert.strictEqual(manifest.version, 1);
+    assert.deepStrictEqual(manifest.environments.map(e => e.configFile), ['mcp-local', 'mcp-dev', 'mcp-prod']);
+    assert.deepStrictEqual(manifest.environments.map(e => e.dangerLevel), ['safe', 'staging', 'production']);
+  });
+
+  test('Explicit danger level overrides position', () => {
+    const env: EnvironmentConfig = { displayName: 'Sandbox', configFileName: 'mcp-sandbox.json', position: 2, dangerLevel: 'safe' };
+    
+    assert.strictEqual(resolveDangerLevel(env, 3), 'safe');
+    assert.strictEqual(resolveDangerLevel({ ...env, dangerLevel: undefined }, 3), 'production');
+  });
+
+  test('Explicit color and icon are used by the status bar', () => {
+    const originalLoadConfig = require('../environmentParser').loadEnvironmentConfiguration;
+    require('../environmentParser').loadEnvironmentConfiguration = () => parseEnvironmentManifest(manifestContent);
+    
+    assert.strictEqual(getEnvironmentColor('Prod'), '#990000');
+    assert.strictEqual(getEnvironmentIcon('Prod'), '$(flame)');
+    assert.strictEqual(getEnvironmentColor('Local'), '#4caf50');
+    assert.strictEqual(getEnvironmentIcon('Local'), '$(desktop-download)');
+    
+    // Restore original function
+    require('../environmentParser').loadEnvironmentConfiguration = originalLoadConfig;
+  });
+});
+
 suite('Dynamic Color Assignment Tests', () => {
   
   test('Single environment - should be green', () => {
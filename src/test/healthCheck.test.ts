@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { resolveCommandOnPath, probeHttpServer, probeStdioServer, formatHealthReport } from '../healthCheck';
+
+suite('Health Check Tests', () => {
+
+  let server: http.Server;
+  let baseUrl: string;
+
+  suiteSetup(done => {
+    server = http.createServer((req, res) => {
+      res.statusCode = req.url === '/broken' ? 503 : req.url === '/mcp' ? 405 : req.url === '/secured' && req.headers.authorization !== 'Bearer valid' ? 401 : 200;
+      res.end();
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  suiteTeardown(done => {
+    server.close(() => done());
+  });
+
+  test('Resolve commands on PATH and by path', () => {
+    const nodeDir = path.dirname(process.execPath);
+    const nodeName = path.basename(process.execPath).replace(/\.exe$/i, '');
+
+    assert.ok(resolveCommandOnPath(nodeName, { PATH: nodeDir, PATHEXT: '.EXE' }));
+    assert.strictEqual(resolveCommandOnPath(process.execPath), process.execPath);
+    assert.strictEqual(resolveCommandOnPath('definitely-not-a-command-xyz', { PATH: nodeDir }), undefined);
+  });
+
+  test('Treat any response below 500 as reachable', async () => {
+    const ok = await probeHttpServer('ok', `${baseUrl}/mcp`);
+    assert.strictEqual(ok.status, 'healthy');
+    assert.strictEqual(ok.detail, 'HTTP 405');
+    assert.ok(ok.durationMs >= 0);
+
+    const broken = await probeHttpServer('broken', `${baseUrl}/broken`);
+    assert.strictEqual(broken.status, 'unhealthy');
+    assert.strictEqual(broken.detail, 'HTTP 503');
+  });
+
+  test('Report rejected credentials apart from reachable servers', async () => {
+    const rejected = await probeHttpServer('secured', `${baseUrl}/secured`, { Authorization: 'Bearer ${token}' });
+    assert.strictEqual(rejected.status, 'unauthorized');
+    assert.strictEqual(rejected.detail, 'HTTP 401, credentials rejected');
+
+    const accepted = await probeHttpServer('secured', `${baseUrl}/secured`, { Authorization: 'Bearer valid' });
+    assert.strictEqual(accepted.status, 'healthy');
+  });
+
+  test('Report unreachable and invalid URLs', async () => {
+    assert.strictEqual((await probeHttpServer('bad', 'not a url')).status, 'unhealthy');
+    assert.strictEqual((await probeHttpServer('closed', 'http://127.0.0.1:1/mcp', {}, { timeoutMs: 1000 })).status, 'unhealthy');
+  });
+
+  test('Stdio servers must stay up through the startup window', async () => {
+    const running = await probeStdioServer('running', process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], {}, { startupMs: 300 });
+    assert.strictEqual(running.status, 'healthy');
+
+    const crashing = await probeStdioServer('crashing', process.execPath, ['-e', 'console.error("boom"); process.exit(2)'], {}, { startupMs: 5000 });
+    assert.strictEqual(crashing.status, 'unhealthy');
+    assert.ok(crashing.detail.includes('code 2'));
+    assert.ok(crashing.detail.includes('boom'));
+
+    const missing = await probeStdioServer('missing', 'definitely-not-a-command-xyz');
+    assert.strictEqual(missing.status, 'unhealthy');
+    assert.ok(missing.detail.includes('not found on PATH'));
+  });
+
+  test('Format the report as a markdown table', () => {
+    const report = formatHealthReport({
+      envName: 'Dev',
+      checkedAt: '2024-01-01T10:00:00.000Z',
+      results: [{ serverName: 'api', transport: 'http', status: 'unhealthy', detail: 'HTTP 503 | down', durationMs: 12 }]
+    });
+
+    assert.ok(report.startsWith('# MCP Health: Dev'));
+    assert.ok(report.includes('| ✗ | api | http | 12 ms | HTTP 503 \\| down |'));
+  });
+});
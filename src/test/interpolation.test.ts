@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import {
+  interpolateConfig,
+  configUsesToken,
+  matchesIgnoringToken,
+  extractTokenValues,
+  maskTokenValues,
+  InterpolationVariables,
+  InterpolationError,
+  TOKEN_PLACEHOLDER
+} from '../interpolation';
+
+suite('Interpolation Tests', () => {
+
+  const variables: InterpolationVariables = {
+    envName: 'Dev',
+    userHome: '/home/dev',
+    workspaceFolder: '/work/project',
+    env: { API_HOST: 'api.dev.example.com' },
+    secrets: { apiKey: 's3cret' }
+  };
+
+  test('Resolve all supported variables', () => {
+    const result = interpolateConfig({
+      mcpServers: {
+        api: {
+          url: 'https://${env:API_HOST}/mcp?env=${envName}',
+          headers: { API_KEY: '${secret:apiKey}' },
+          args: ['${workspaceFolder}/server.js', '${userHome}/.cache']
+        }
+      }
+    }, { ...variables, token: 'uuid-1' });
+
+    assert.deepStrictEqual(result.mcpServers.api, {
+      url: 'https://api.dev.example.com/mcp?env=Dev',
+      headers: { API_KEY: 's3cret' },
+      args: ['/work/project/server.js', '/home/dev/.cache']
+    });
+  });
+
+  test('Use defaults for missing values', () => {
+    const result = interpolateConfig({ port: '${env:PORT:-8080}', empty: '${secret:missing:-}' }, variables);
+
+    assert.deepStrictEqual(result, { port: '8080', empty: '' });
+  });
+
+  test('Substitute token and legacy template when a token is given', () => {
+    const config = { a: '${token}', b: 'Bearer access_token_template' };
+
+    assert.strictEqual(configUsesToken(config), true);
+    assert.deepStrictEqual(interpolateConfig(config, { ...variables, token: 'uuid-1' }), { a: 'uuid-1', b: 'Bearer uuid-1' });
+    assert.deepStrictEqual(interpolateConfig(config, variables), config);
+  });
+
+  test('Keep escaped placeholders literal', () => {
+    const result = interpolateConfig({ value: '$${env:API_HOST}' }, variables);
+
+    assert.strictEqual(result.value, '${env:API_HOST}');
+    assert.strictEqual(configUsesToken({ value: '$${token}' }), false);
+  });
+
+  test('Report every unresolved variable', () => {
+    assert.throws(
+      () => interpolateConfig({ a: '${env:MISSING}', b: '${secret:nope}', c: '${bogus}' }, variables),
+      (error: unknown) => error instanceof InterpolationError && error.unresolved.length === 3
+    );
+  });
+
+  test('Compare configs ignoring token values', () => {
+    const expected = { mcpServers: { api: { headers: { Authorization: `Bearer ${TOKEN_PLACEHOLDER}` } } } };
+    const live = { mcpServers: { api: { headers: { Authorization: 'Bearer 1234-abcd' } } } };
+
+    assert.strictEqual(matchesIgnoringToken(expected, live), true);
+    assert.strictEqual(matchesIgnoringToken(expected, { mcpServers: { api: { headers: {} } } }), false);
+    assert.strictEqual(matchesIgnoringToken(expected, { ...live, extra: true }), false);
+    assert.deepStrictEqual(extractTokenValues(expected, live), ['1234-abcd']);
+    assert.strictEqual(maskTokenValues(JSON.stringify(live), ['1234-abcd']), JSON.stringify({ mcpServers: { api: { headers: { Authorization: 'Bearer <token>' } } } }));
+  });
+});
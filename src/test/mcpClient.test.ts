@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { listServerCapabilities, createSseParser } from '../mcpClient';
+
+/**
+ * Stand-in MCP server logic, shared by the HTTP server below and (as source)
+ * by the stdio child process. It must not reference anything outside itself.
+ */
+interface StandInMessage {
+  id?: number;
+  method?: string;
+  params?: { protocolVersion?: string; cursor?: string };
+}
+
+function handleStandInMessage(message: StandInMessage): object | undefined {
+  const reply = (result: object) => ({ jsonrpc: '2.0', id: message.id, result });
+  switch (message.method) {
+    case 'initialize':
+      return reply({
+        protocolVersion: message.params?.protocolVersion,
+        capabilities: { tools: {}, prompts: {}, resources: {} },
+        serverInfo: { name: 'stand-in', version: '1.0.0' }
+      });
+    case 'tools/list':
+      return message.params && message.params.cursor
+        ? reply({ tools: [{ name: 'search' }] })
+        : reply({ tools: [{ name: 'echo', description: 'Echo the input' }], nextCursor: 'page-2' });
+    case 'prompts/list':
+      return reply({ prompts: [{ name: 'summarize' }] });
+    case 'resources/list':
+      return reply({ resources: [{ uri: 'file:///readme.md', name: 'README' }] });
+    default:
+      return undefined;
+  }
+}
+
+const STDIO_STAND_IN = `
+const handle = ${handleStandInMessage.toString()};
+console.log('stand-in server starting');
+let buffer = '';
+process.stdin.on('data', chunk => {
+  buffer += chunk;
+  const lines = buffer.split('\\n');
+  buffer = lines.pop();
+  lines.filter(line => line.trim()).forEach(line => {
+    const response = handle(JSON.parse(line));
+    if (response) {
+      process.stdout.write(JSON.stringify(response) + '\\n');
+    }
+  });
+});
+`;
+
+suite('MCP Client Tests', () => {
+
+  let server: http.Server;
+  let baseUrl: string;
+  let legacyStream: http.ServerResponse | undefined;
+  const seenAuthorization: (string | undefined)[] = [];
+  const seenSessionIds: (string | undefined)[] = [];
+
+  const readBody = (req: http.IncomingMessage) => new Promise<string>(resolve => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+  });
+
+  suiteSetup(done => {
+    server = http.createServer(async (req, res) => {
+      const url = req.url || '';
+
+      if (url === '/mcp' && req.method === 'POST') {
+        seenAuthorization.push(req.headers.authorization);
+        seenSessionIds.push(req.headers['mcp-session-id'] as string | undefined);
+        const message = JSON.parse(await readBody(req));
+        const response = handleStandInMessage(message);
+        if (!response) {
+          res.writeHead(202).end();
+        } else if (message.method === 'tools/list') {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+          res.end(JSON.stringify(response));
+        }
+      } else if (url === '/legacy' && req.method === 'GET') {
+        legacyStream = res;
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write('event: endpoint\ndata: /legacy/messages?session=1\n\n');
+      } else if (url.startsWith('/legacy/messages') && req.method === 'POST') {
+        const response = handleStandInMessage(JSON.parse(await readBody(req)));
+        res.writeHead(202).end();
+        if (response) {
+          legacyStream?.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+        }
+      } else {
+        res.writeHead(req.method === 'DELETE' ? 200 : 405).end();
+      }
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  suiteTeardown(done => {
+    server.closeAllConnections();
+    server.close(() => done());
+  });
+
+  test('Parse multi-line server-sent events', () => {
+    const events: string[] = [];
+    const parse = createSseParser((event, data) => events.push(`${event}:${data}`));
+
+    parse('event: endpoint\r\ndata: /messages\r\n\r\ndata: {"a":');
+    parse('1}\ndata: {"b":2}\n\n');
+
+    assert.deepStrictEqual(events, ['endpoint:/messages', 'message:{"a":1}\n{"b":2}']);
+  });
+
+  test('List a stdio server', async () => {
+    const listing = await listServerCapabilities('local', { command: process.execPath, args: ['-e', STDIO_STAND_IN] });
+
+    assert.strictEqual(listing.error, undefined);
+    assert.strictEqual(listing.transport, 'stdio');
+    assert.deepStrictEqual(listing.serverInfo, { name: 'stand-in', version: '1.0.0' });
+    assert.deepStrictEqual(listing.tools.map(tool => tool.name), ['echo', 'search']);
+    assert.deepStrictEqual(listing.prompts.map(prompt => prompt.name), ['summarize']);
+    assert.deepStrictEqual(listing.resources.map(resource => resource.uri), ['file:///readme.md']);
+  });
+
+  test('List a streamable HTTP server with the rendered headers', async () => {
+    const listing = await listServerCapabilities('remote', { url: `${baseUrl}/mcp`, headers: { Authorization: 'Bearer abc-123' } });
+
+    assert.strictEqual(listing.error, undefined);
+    assert.strictEqual(listing.transport, 'http');
+    assert.deepStrictEqual(listing.tools.map(tool => tool.name), ['echo', 'search']);
+    assert.ok(seenAuthorization.every(value => value === 'Bearer abc-123'));
+    assert.strictEqual(seenSessionIds[0], undefined);
+    assert.strictEqual(seenSessionIds[seenSessionIds.length - 1], 'session-1');
+  });
+
+  test('Fall back to HTTP+SSE when the POST is rejected', async () => {
+    const listing = await listServerCapabilities('legacy', { url: `${baseUrl}/legacy` });
+
+    assert.strictEqual(listing.error, undefined);
+    assert.strictEqual(listing.transport, 'sse');
+    assert.deepStrictEqual(listing.prompts.map(prompt => prompt.name), ['summarize']);
+  });
+
+  test('Report servers that cannot be reached', async () => {
+    const crashing = await listServerCapabilities('crashing', { command: process.execPath, args: ['-e', 'process.exit(3)'] });
+    assert.ok(crashing.error?.includes('code 3'));
+
+    const missing = await listServerCapabilities('missing', {});
+    assert.ok(missing.error);
+  });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { getTargetAdapter, translateServers, buildTargetConfig, mergeTargetConfig } from '../mcpTargets';
+
+suite('MCP Target Adapter Tests', () => {
+
+  const canonical = {
+    mcpServers: {
+      remote: { type: 'http', url: 'https://mcp.example.com', headers: { API_KEY: 'abc' } },
+      local: { command: 'node', args: ['server.js'], env: { DEBUG: '1' } }
+    }
+  };
+
+  test('Cursor owns the whole file and keeps the canonical shape', () => {
+    const result = buildTargetConfig(getTargetAdapter('cursor'), canonical, { other: true });
+
+    assert.deepStrictEqual(result, canonical);
+  });
+
+  test('VS Code uses the servers schema with explicit types', () => {
+    const result = buildTargetConfig(getTargetAdapter('vscode'), canonical, { inputs: [] });
+
+    assert.deepStrictEqual(result, {
+      inputs: [],
+      servers: {
+        remote: { type: 'http', url: 'https://mcp.example.com', headers: { API_KEY: 'abc' } },
+        local: { type: 'stdio', command: 'node', args: ['server.js'], env: { DEBUG: '1' } }
+      }
+    });
+  });
+
+  test('Windsurf uses serverUrl for remote servers', () => {
+    const servers = translateServers(getTargetAdapter('windsurf'), canonical);
+
+    assert.deepStrictEqual(servers.remote, { serverUrl: 'https://mcp.example.com', headers: { API_KEY: 'abc' } });
+    assert.deepStrictEqual(servers.local, canonical.mcpServers.local);
+  });
+
+  test('Claude Desktop bridges remote servers through mcp-remote', () => {
+    const result = buildTargetConfig(getTargetAdapter('claudeDesktop'), canonical, { globalShortcut: 'Ctrl+Space' });
+
+    assert.strictEqual(result.globalShortcut, 'Ctrl+Space');
+    assert.deepStrictEqual(result.mcpServers.remote, {
+      command: 'npx',
+      args: ['-y', 'mcp-remote', 'https://mcp.example.com', '--header', 'API_KEY:abc']
+    });
+  });
+
+  test('Merge mode replaces owned servers and keeps personal ones', () => {
+    const existing = { mcpServers: { personal: { command: 'my-tool' }, old: { url: 'https://old' } } };
+    const result = mergeTargetConfig(getTargetAdapter('cursor'), canonical, existing, ['old']);
+
+    assert.deepStrictEqual(Object.keys(result.config.mcpServers).sort(), ['local', 'personal', 'remote']);
+    assert.deepStrictEqual(result.ownedKeys, ['remote', 'local']);
+    assert.deepStrictEqual(result.collisions, []);
+  });
+
+  test('Merge mode reports collisions with personal servers', () => {
+    const existing = { mcpServers: { local: { command: 'my-local' } } };
+    const result = mergeTargetConfig(getTargetAdapter('cursor'), canonical, existing, []);
+
+    assert.deepStrictEqual(result.collisions, ['local']);
+    assert.deepStrictEqual(result.config.mcpServers.local, { command: 'my-local' });
+    assert.deepStrictEqual(result.ownedKeys, ['remote']);
+  });
+});
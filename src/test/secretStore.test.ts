@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import {
+  initializeSecretStore,
+  getSecretValues,
+  getSecretNames,
+  setSecret,
+  deleteSecret,
+  readAccessToken,
+  validateSecretName,
+  getLegacyAccessTokenFilePath,
+  getLegacySecretsFilePath
+} from '../secretStore';
+
+/**
+ * Just enough of an ExtensionContext: in-memory secret storage and global state
+ */
+function createFakeContext(): vscode.ExtensionContext {
+  const secrets = new Map<string, string>();
+  const state = new Map<string, unknown>();
+  return {
+    subscriptions: [],
+    secrets: {
+      get: async (key: string) => secrets.get(key),
+      store: async (key: string, value: string) => { secrets.set(key, value); },
+      delete: async (key: string) => { secrets.delete(key); },
+      onDidChange: () => ({ dispose: () => undefined })
+    },
+    globalState: {
+      get: (key: string) => state.get(key),
+      update: async (key: string, value: unknown) => { state.set(key, value); }
+    }
+  } as unknown as vscode.ExtensionContext;
+}
+
+suite('Secret Store Tests', () => {
+
+  const testHome = path.join(os.tmpdir(), 'mcp-secrets-test-' + Date.now());
+
+  setup(() => {
+    process.env.MCP_SELECTOR_HOME = testHome;
+    fs.mkdirSync(path.dirname(getLegacySecretsFilePath()), { recursive: true });
+  });
+
+  teardown(() => {
+    delete process.env.MCP_SELECTOR_HOME;
+    if (fs.existsSync(testHome)) {
+      fs.rmSync(testHome, { recursive: true, force: true });
+    }
+  });
+
+  test('Move plain-text token and secrets into secret storage', async () => {
+    fs.writeFileSync(getLegacyAccessTokenFilePath(), 'legacy-token\n');
+    fs.writeFileSync(getLegacySecretsFilePath(), JSON.stringify({ 'github-token': 'ghp_1', 'bad name': 'x', port: 8080 }));
+    const context = createFakeContext();
+
+    await initializeSecretStore(context);
+
+    assert.strictEqual(await readAccessToken(context), 'legacy-token');
+    assert.deepStrictEqual(getSecretNames(context), ['github-token']);
+    assert.deepStrictEqual(getSecretValues(), { 'github-token': 'ghp_1' });
+    assert.ok(!fs.existsSync(getLegacyAccessTokenFilePath()));
+    assert.ok(!fs.existsSync(getLegacySecretsFilePath()));
+  });
+
+  test('Stored values win over legacy files', async () => {
+    const context = createFakeContext();
+    await setSecret(context, 'api-key', 'stored');
+    fs.writeFileSync(getLegacySecretsFilePath(), JSON.stringify({ 'api-key': 'from-file' }));
+
+    await initializeSecretStore(context);
+    assert.deepStrictEqual(getSecretValues(), { 'api-key': 'stored' });
+  });
+
+  test('Set and delete named secrets', async () => {
+    const context = createFakeContext();
+    await initializeSecretStore(context);
+
+    await setSecret(context, 'b', '2');
+    await setSecret(context, 'a', '1');
+    assert.deepStrictEqual(getSecretNames(context), ['a', 'b']);
+
+    await deleteSecret(context, 'b');
+    assert.deepStrictEqual(getSecretNames(context), ['a']);
+    assert.deepStrictEqual(getSecretValues(), { a: '1' });
+
+    assert.strictEqual(validateSecretName('server-api_key.1'), undefined);
+    assert.ok(validateSecretName('has space'));
+    assert.ok(validateSecretName(''));
+  });
+});
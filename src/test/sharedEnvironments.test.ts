@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  setSharedSourceDir,
+  loadEnvironmentConfiguration,
+  resolveEnvironmentFile,
+  getEnvironmentPropsPath
+} from '../environmentParser';
+import { renderConfigFile } from '../configRenderer';
+import { getConfigFilePath } from '../environmentConfig';
+import { deleteEnvironmentConfig, duplicateEnvironmentConfig, addEnvironmentConfig } from '../environmentEditor';
+import { resolveSharedSourcePath } from '../sharedSource';
+
+suite('Shared Environment Source Tests', () => {
+
+  const testHome = path.join(os.tmpdir(), 'mcp-shared-test-' + Date.now());
+  const sharedDir = path.join(testHome, 'team-mcp');
+  const localEnvsDir = () => path.join(testHome, '.cursor', 'mcp-selector', 'envs');
+
+  const writeJson = (filePath: string, content: object) => {
+    fs.writeFileSync(filePath, JSON.stringify(content, null, 2));
+  };
+
+  setup(() => {
+    process.env.MCP_SELECTOR_HOME = testHome;
+    fs.mkdirSync(localEnvsDir(), { recursive: true });
+    fs.mkdirSync(path.join(sharedDir, 'envs'), { recursive: true });
+    fs.writeFileSync(path.join(sharedDir, 'mcp-environments.props'), 'Dev:mcp-dev\nStaging:mcp-staging\nProd:mcp-prod\n');
+    writeJson(path.join(sharedDir, 'envs', 'mcp-base.json'), { mcpServers: { docs: { url: 'https://docs.example.com/mcp' } } });
+    writeJson(path.join(sharedDir, 'envs', 'mcp-dev.json'), { extends: 'mcp-base.json', mcpServers: {} });
+    writeJson(path.join(sharedDir, 'envs', 'mcp-staging.json'), { mcpServers: { api: { url: 'https://staging.example.com/mcp' } } });
+    writeJson(path.join(sharedDir, 'envs', 'mcp-prod.json'), { mcpServers: { api: { url: 'https://example.com/mcp' } } });
+    setSharedSourceDir(sharedDir);
+  });
+
+  teardown(() => {
+    setSharedSourceDir(undefined);
+    delete process.env.MCP_SELECTOR_HOME;
+    if (fs.existsSync(testHome)) {
+      fs.rmSync(testHome, { recursive: true, force: true });
+    }
+  });
+
+  test('Shared environments need no local props file', () => {
+    const { environments } = loadEnvironmentConfiguration();
+    assert.deepStrictEqual(environments.map(env => env.displayName), ['Dev', 'Staging', 'Prod']);
+    assert.ok(environments.every(env => env.source === 'shared'));
+    assert.ok(!fs.existsSync(getEnvironmentPropsPath()), 'no default Local/Dev/Prod props is created');
+  });
+
+  test('Local entries override shared ones in place and keep their own levels', () => {
+    fs.writeFileSync(getEnvironmentPropsPath(), 'Laptop:mcp-laptop\nStaging:mcp-my-staging\n');
+
+    const { environments } = loadEnvironmentConfiguration();
+    assert.deepStrictEqual(environments.map(env => `${env.displayName}:${env.configFileName}:${env.source}`), [
+      'Dev:mcp-dev.json:shared',
+      'Staging:mcp-my-staging.json:local',
+      'Prod:mcp-prod.json:shared',
+      'Laptop:mcp-laptop.json:local'
+    ]);
+    assert.ok(environments[1].overridesShared);
+    assert.strictEqual(environments[2].dangerLevel, 'production');
+    assert.strictEqual(environments[3].dangerLevel, 'safe');
+    assert.deepStrictEqual(environments.map(env => env.position), [0, 1, 2, 3]);
+  });
+
+  test('Local files take precedence and may extend shared ones', () => {
+    assert.strictEqual(resolveEnvironmentFile('mcp-dev.json'), path.join(sharedDir, 'envs', 'mcp-dev.json'));
+    assert.strictEqual(resolveEnvironmentFile('mcp-new.json'), path.join(localEnvsDir(), 'mcp-new.json'));
+
+    writeJson(path.join(localEnvsDir(), 'mcp-dev.json'), { extends: 'mcp-base', mcpServers: { local: { command: 'node' } } });
+    assert.strictEqual(getConfigFilePath('Dev'), path.join(localEnvsDir(), 'mcp-dev.json'));
+    assert.deepStrictEqual(Object.keys(renderConfigFile(getConfigFilePath('Dev')).mcpServers), ['docs', 'local']);
+  });
+
+  test('Edits stay local', () => {
+    assert.throws(() => deleteEnvironmentConfig('Staging'), /shared environment source/);
+
+    const copyName = duplicateEnvironmentConfig('Staging');
+    assert.strictEqual(copyName, 'Staging Copy');
+    assert.ok(fs.existsSync(path.join(localEnvsDir(), 'mcp-staging-copy.json')));
+    assert.strictEqual(fs.readFileSync(getEnvironmentPropsPath(), 'utf-8'), 'Staging Copy:mcp-staging-copy\n');
+
+    addEnvironmentConfig({ displayName: 'Mine', configBase: 'mcp-mine', before: 'Prod' });
+    assert.strictEqual(fs.readFileSync(getEnvironmentPropsPath(), 'utf-8'), 'Staging Copy:mcp-staging-copy\nMine:mcp-mine\n');
+    assert.deepStrictEqual(fs.readdirSync(path.join(sharedDir, 'envs')).sort(), ['mcp-base.json', 'mcp-dev.json', 'mcp-prod.json', 'mcp-staging.json']);
+  });
+
+  test('Resolve the setting value', () => {
+    assert.strictEqual(resolveSharedSourcePath(''), undefined);
+    assert.strictEqual(resolveSharedSourcePath('~/team-mcp'), sharedDir);
+    assert.strictEqual(resolveSharedSourcePath('${userHome}/team-mcp/'), sharedDir);
+  });
+});
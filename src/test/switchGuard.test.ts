@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { resolveSwitchGuard, appendAuditEntry, readAuditEntries, getAuditLogPath } from '../switchGuard';
+import { EnvironmentConfig, validateEnvironmentManifest } from '../environmentParser';
+
+suite('Switch Guard Tests', () => {
+
+  const testHome = path.join(os.tmpdir(), 'mcp-guard-test-' + Date.now());
+
+  const env = (position: number, extra: Partial<EnvironmentConfig> = {}): EnvironmentConfig => ({
+    displayName: `Env${position}`,
+    configFileName: `mcp-env${position}.json`,
+    position,
+    ...extra
+  });
+
+  setup(() => {
+    process.env.MCP_SELECTOR_HOME = testHome;
+  });
+
+  teardown(() => {
+    delete process.env.MCP_SELECTOR_HOME;
+    if (fs.existsSync(testHome)) {
+      fs.rmSync(testHome, { recursive: true, force: true });
+    }
+  });
+
+  test('Guard production environments with the configured default', () => {
+    assert.strictEqual(resolveSwitchGuard(env(0), 3, 'confirm'), 'none');
+    assert.strictEqual(resolveSwitchGuard(env(1), 3, 'confirm'), 'none');
+    assert.strictEqual(resolveSwitchGuard(env(2), 3, 'confirm'), 'confirm');
+    assert.strictEqual(resolveSwitchGuard(env(2), 3, 'typed'), 'typed');
+    assert.strictEqual(resolveSwitchGuard(env(0, { dangerLevel: 'production' }), 3, 'typed'), 'typed');
+  });
+
+  test('Explicit policy wins over the danger level', () => {
+    assert.strictEqual(resolveSwitchGuard(env(2, { switchGuard: 'none' }), 3, 'typed'), 'none');
+    assert.strictEqual(resolveSwitchGuard(env(0, { switchGuard: 'confirm' }), 3, 'none'), 'confirm');
+  });
+
+  test('Reject unknown policies in the manifest', () => {
+    const result = validateEnvironmentManifest(JSON.stringify({
+      environments: [{ displayName: 'Prod', configFile: 'mcp-prod', switchGuard: 'never' }]
+    }));
+    assert.strictEqual(result.isValid, false);
+    assert.ok(result.errors[0].includes('switch guard'));
+  });
+
+  test('Append audit entries as JSON lines', () => {
+    const entry = {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      fromEnv: 'Dev',
+      toEnv: 'Prod',
+      policy: 'typed' as const,
+      dangerLevel: 'production',
+      user: 'tester',
+      windowId: 'window-1'
+    };
+
+    appendAuditEntry(entry);
+    appendAuditEntry({ ...entry, fromEnv: undefined });
+
+    const entries = readAuditEntries();
+    assert.strictEqual(entries.length, 2);
+    assert.deepStrictEqual(entries[0], entry);
+    assert.strictEqual(entries[1].fromEnv, undefined);
+  });
+
+  test('Skip audit log lines that do not parse', () => {
+    const entry = {
+      timestamp: '2024-01-01T00:00:00.000Z',
+      fromEnv: 'Dev',
+      toEnv: 'Prod',
+      policy: 'confirm' as const,
+      dangerLevel: 'production',
+      user: 'tester',
+      windowId: 'window-1'
+    };
+
+    appendAuditEntry(entry);
+    fs.appendFileSync(getAuditLogPath(), '{"timestamp":"2024-01-01T00:01\n');
+    appendAuditEntry({ ...entry, toEnv: 'Staging' });
+
+    const entries = readAuditEntries();
+    assert.strictEqual(entries.length, 2);
+    assert.strictEqual(entries[0].toEnv, 'Prod');
+    assert.strictEqual(entries[1].toEnv, 'Staging');
+  });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { recordSwitchSnapshot, listSnapshots, restoreSnapshot } from '../switchHistory';
+
+suite('Switch History Tests', () => {
+
+  const testHome = path.join(os.tmpdir(), 'mcp-history-test-' + Date.now());
+  const mcpJsonPath = path.join(testHome, '.cursor', 'mcp.json');
+  const idpUrlPath = path.join(testHome, '.cursor', 'mcp-selector', 'mcp-idp-url.txt');
+
+  setup(() => {
+    process.env.MCP_SELECTOR_HOME = testHome;
+    fs.mkdirSync(path.dirname(mcpJsonPath), { recursive: true });
+  });
+
+  teardown(() => {
+    delete process.env.MCP_SELECTOR_HOME;
+    if (fs.existsSync(testHome)) {
+      fs.rmSync(testHome, { recursive: true, force: true });
+    }
+  });
+
+  test('Record and restore a snapshot', () => {
+    fs.writeFileSync(mcpJsonPath, '{"mcpServers":{"dev":{}}}');
+
+    recordSwitchSnapshot('Dev', 'Prod', [mcpJsonPath, idpUrlPath]);
+    fs.writeFileSync(mcpJsonPath, '{"mcpServers":{"prod":{}}}');
+    fs.mkdirSync(path.dirname(idpUrlPath), { recursive: true });
+    fs.writeFileSync(idpUrlPath, 'https://idp.prod');
+
+    const [snapshot] = listSnapshots();
+    assert.strictEqual(snapshot.fromEnv, 'Dev');
+    assert.strictEqual(snapshot.toEnv, 'Prod');
+
+    restoreSnapshot(snapshot);
+
+    assert.strictEqual(fs.readFileSync(mcpJsonPath, 'utf-8'), '{"mcpServers":{"dev":{}}}');
+    assert.strictEqual(fs.existsSync(idpUrlPath), false);
+    assert.strictEqual(listSnapshots().length, 0);
+  });
+
+  test('List snapshots newest first and drop newer ones on restore', () => {
+    fs.writeFileSync(mcpJsonPath, 'local');
+    recordSwitchSnapshot('Local', 'Dev', [mcpJsonPath]);
+    recordSwitchSnapshot('Dev', 'Prod', [mcpJsonPath]);
+
+    const snapshots = listSnapshots();
+    assert.deepStrictEqual(snapshots.map(s => s.toEnv), ['Prod', 'Dev']);
+
+    restoreSnapshot(snapshots[1]);
+    assert.strictEqual(listSnapshots().length, 0);
+  });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  formatRemaining,
+  resolveRevertTarget,
+  writeTemporarySession,
+  readTemporarySession,
+  endTemporarySession,
+  TemporarySession
+} from '../temporarySession';
+import { EnvironmentConfig } from '../environmentParser';
+
+suite('Temporary Session Tests', () => {
+
+  const testHome = path.join(os.tmpdir(), 'mcp-session-test-' + Date.now());
+
+  const environments: EnvironmentConfig[] = [
+    { displayName: 'Local', configFileName: 'mcp-local.json', position: 0 },
+    { displayName: 'Dev', configFileName: 'mcp-dev.json', position: 1 },
+    { displayName: 'Prod', configFileName: 'mcp-prod.json', position: 2 }
+  ];
+
+  const session: TemporarySession = {
+    envName: 'Prod',
+    revertTo: 'Dev',
+    startedAt: '2024-01-01T10:00:00.000Z',
+    expiresAt: '2024-01-01T10:10:00.000Z',
+    windowId: 'window-1'
+  };
+
+  setup(() => {
+    process.env.MCP_SELECTOR_HOME = testHome;
+  });
+
+  teardown(() => {
+    delete process.env.MCP_SELECTOR_HOME;
+    if (fs.existsSync(testHome)) {
+      fs.rmSync(testHome, { recursive: true, force: true });
+    }
+  });
+
+  test('Format the remaining time', () => {
+    assert.strictEqual(formatRemaining(9 * 60000 + 5000), '9:05');
+    assert.strictEqual(formatRemaining(1500), '0:02');
+    assert.strictEqual(formatRemaining(62 * 60000), '1:02:00');
+    assert.strictEqual(formatRemaining(-1000), '0:00');
+  });
+
+  test('Revert to the previous environment or the safest one', () => {
+    assert.strictEqual(resolveRevertTarget(environments, 3, 'Dev', 'Prod'), 'Dev');
+    assert.strictEqual(resolveRevertTarget(environments, 3, 'Removed', 'Prod'), 'Local');
+    assert.strictEqual(resolveRevertTarget(environments, 3, 'Prod', 'Prod'), 'Local');
+    assert.strictEqual(resolveRevertTarget(environments, 3, undefined, 'Dev'), 'Local');
+  });
+
+  test('Only the window that ends a session first gets to revert it', () => {
+    writeTemporarySession(session);
+    assert.deepStrictEqual(readTemporarySession(), session);
+
+    assert.strictEqual(endTemporarySession(session), true);
+    assert.strictEqual(endTemporarySession(session), false);
+    assert.strictEqual(readTemporarySession(), undefined);
+  });
+
+  test('Do not end a session that was replaced', () => {
+    writeTemporarySession({ ...session, startedAt: '2024-01-01T10:05:00.000Z' });
+
+    assert.strictEqual(endTemporarySession(session), false);
+    assert.ok(readTemporarySession());
+  });
+});
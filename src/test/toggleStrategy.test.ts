@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { getNextToggleEnvironment, ResolvedToggleOptions } from '../toggleStrategy';
+import { EnvironmentConfig } from '../environmentParser';
+
+suite('Toggle Strategy Tests', () => {
+
+  const environments: EnvironmentConfig[] = [
+    { displayName: 'Local', configFileName: 'mcp-local.json', position: 0 },
+    { displayName: 'Dev', configFileName: 'mcp-dev.json', position: 1 },
+    { displayName: 'Staging', configFileName: 'mcp-staging.json', position: 2 },
+    { displayName: 'Prod', configFileName: 'mcp-prod.json', position: 3 }
+  ];
+
+  const next = (currentEnv: string, options: Partial<ResolvedToggleOptions>, lastUsedEnv?: string) =>
+    getNextToggleEnvironment(environments, environments.length, currentEnv, { strategy: 'all', environments: [], ...options }, lastUsedEnv);
+
+  test('Round-robin through every environment', () => {
+    assert.strictEqual(next('Staging', {}), 'Prod');
+    assert.strictEqual(next('Prod', {}), 'Local');
+    assert.strictEqual(next('Unknown', {}), 'Local');
+  });
+
+  test('Cycle through the declared subset', () => {
+    const options: Partial<ResolvedToggleOptions> = { strategy: 'cycle', environments: ['Local', 'Dev'] };
+    assert.strictEqual(next('Local', options), 'Dev');
+    assert.strictEqual(next('Dev', options), 'Local');
+    assert.strictEqual(next('Prod', options), 'Local');
+    assert.strictEqual(next('Local', { strategy: 'cycle', environments: ['Removed'] }), undefined);
+  });
+
+  test('Toggle back to the last used environment', () => {
+    assert.strictEqual(next('Prod', { strategy: 'lastUsed' }, 'Dev'), 'Dev');
+    assert.strictEqual(next('Prod', { strategy: 'lastUsed' }), undefined);
+    assert.strictEqual(next('Prod', { strategy: 'lastUsed' }, 'Removed'), undefined);
+  });
+
+  test('Skip production environments', () => {
+    assert.strictEqual(next('Staging', { strategy: 'skipDangerous' }), 'Local');
+    assert.strictEqual(next('Prod', { strategy: 'skipDangerous' }), 'Local');
+    assert.strictEqual(next('Local', { strategy: 'skipDangerous' }), 'Dev');
+
+    const declared = environments.map(env => env.displayName === 'Dev' ? { ...env, dangerLevel: 'production' as const } : env);
+    assert.strictEqual(getNextToggleEnvironment(declared, 4, 'Local', { strategy: 'skipDangerous', environments: [] }), 'Staging');
+  });
+});
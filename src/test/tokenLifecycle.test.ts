@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { readTokenState, recordTokenIssued, recordTokenError, isTokenRefreshDue, claimTokenRefresh, formatTokenValidity, getTokenStatePath } from '../tokenLifecycle';
+
+suite('Token Lifecycle Tests', () => {
+
+  const testHome = path.join(os.tmpdir(), 'mcp-token-test-' + Date.now());
+  const minutes = (count: number) => count * 60 * 1000;
+
+  setup(() => {
+    process.env.MCP_SELECTOR_HOME = testHome;
+  });
+
+  teardown(() => {
+    delete process.env.MCP_SELECTOR_HOME;
+    if (fs.existsSync(testHome)) {
+      fs.rmSync(testHome, { recursive: true, force: true });
+    }
+  });
+
+  test('Refresh when there is no token or it expires within the margin', () => {
+    const issued = new Date('2026-01-01T10:00:00Z');
+    const state = recordTokenIssued('Dev', issued, minutes(60));
+
+    assert.strictEqual(state.expiresAt, '2026-01-01T11:00:00.000Z');
+    assert.strictEqual(isTokenRefreshDue({}, issued.getTime(), minutes(5)), true);
+    assert.strictEqual(isTokenRefreshDue(state, issued.getTime() + minutes(54), minutes(5)), false);
+    assert.strictEqual(isTokenRefreshDue(state, issued.getTime() + minutes(55), minutes(5)), true);
+    // Woke up long after expiry
+    assert.strictEqual(isTokenRefreshDue(state, issued.getTime() + minutes(600), 0), true);
+  });
+
+  test('A failed refresh keeps the current token times', () => {
+    const issued = new Date('2026-01-01T10:00:00Z');
+    recordTokenIssued('Dev', issued, minutes(60));
+    recordTokenError(new Error('HTTP 503'), new Date('2026-01-01T10:55:00Z'));
+
+    const state = readTokenState();
+    assert.strictEqual(state.envName, 'Dev');
+    assert.strictEqual(state.expiresAt, '2026-01-01T11:00:00.000Z');
+    assert.deepStrictEqual(state.lastError, { at: '2026-01-01T10:55:00.000Z', message: 'HTTP 503' });
+
+    recordTokenIssued('Dev', new Date('2026-01-01T10:56:00Z'), minutes(60));
+    assert.strictEqual(readTokenState().lastError, undefined);
+  });
+
+  test('Claim a due refresh unless another window is issuing a token', () => {
+    const issued = new Date('2026-01-01T10:00:00Z');
+    recordTokenIssued('Dev', issued, minutes(60));
+    assert.strictEqual(claimTokenRefresh(issued.getTime() + minutes(30), minutes(5)), false, 'not due yet');
+
+    const due = issued.getTime() + minutes(56);
+    fs.writeFileSync(getTokenStatePath(), JSON.stringify({
+      ...readTokenState(),
+      refreshClaim: { windowId: 'other-window', at: new Date(due - minutes(1)).toISOString() }
+    }));
+    assert.strictEqual(claimTokenRefresh(due, minutes(5)), false);
+    // The other window went away without finishing
+    assert.strictEqual(claimTokenRefresh(due + minutes(10), minutes(5)), true);
+    assert.notStrictEqual(readTokenState().refreshClaim?.windowId, 'other-window');
+
+    recordTokenError(new Error('HTTP 503'));
+    assert.strictEqual(readTokenState().refreshClaim, undefined);
+  });
+
+  test('Format remaining validity', () => {
+    assert.strictEqual(formatTokenValidity(minutes(42) + 59000), '42m');
+    assert.strictEqual(formatTokenValidity(minutes(65)), '1h05m');
+    assert.strictEqual(formatTokenValidity(-1000), '0m');
+  });
+});
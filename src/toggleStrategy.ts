@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { EnvironmentConfig, resolveDangerLevel } from './environmentParser';
+
+/**
+ * How the status bar toggle picks the next environment:
+ * - all: round-robin through every environment
+ * - cycle: round-robin through the declared toggleEnvironments (e.g. a pair)
+ * - lastUsed: back to the environment that was active before the current one
+ * - skipDangerous: round-robin, leaving out production environments
+ */
+export type ToggleStrategy = 'all' | 'cycle' | 'lastUsed' | 'skipDangerous';
+
+export const TOGGLE_STRATEGIES: ToggleStrategy[] = ['all', 'cycle', 'lastUsed', 'skipDangerous'];
+
+/**
+ * Arguments of the toggleEnvironment command (e.g. from a keybinding); they win over the settings
+ */
+export interface ToggleOptions {
+  strategy?: ToggleStrategy;
+  environments?: string[];
+}
+
+export interface ResolvedToggleOptions {
+  strategy: ToggleStrategy;
+  environments: string[];
+}
+
+export function resolveToggleOptions(args?: ToggleOptions): ResolvedToggleOptions {
+  const config = vscode.workspace.getConfiguration('mcpServerSelector');
+  const strategy = args?.strategy ?? config.get<ToggleStrategy>('toggleStrategy', 'all');
+
+  if (!TOGGLE_STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown toggle strategy '${strategy}', expected one of ${TOGGLE_STRATEGIES.join(', ')}`);
+  }
+
+  return {
+    strategy,
+    environments: args?.environments ?? config.get<string[]>('toggleEnvironments', [])
+  };
+}
+
+function nextInCycle(cycle: string[], currentEnv: string): string | undefined {
+  if (cycle.length === 0) {
+    return undefined;
+  }
+  const index = cycle.indexOf(currentEnv);
+  return cycle[(index + 1) % cycle.length];
+}
+
+/**
+ * Pick the environment the toggle switches to. Returns undefined when the
+ * strategy has nowhere to go (e.g. no last used environment yet).
+ */
+export function getNextToggleEnvironment(
+  environments: EnvironmentConfig[],
+  totalCount: number,
+  currentEnv: string,
+  options: ResolvedToggleOptions,
+  lastUsedEnv?: string
+): string | undefined {
+  const names = environments.map(env => env.displayName);
+  let next: string | undefined;
+
+  switch (options.strategy) {
+    case 'all':
+      next = nextInCycle(names, currentEnv);
+      break;
+    case 'cycle':
+      next = nextInCycle(options.environments.filter(name => names.includes(name)), currentEnv);
+      break;
+    case 'lastUsed':
+      next = lastUsedEnv && names.includes(lastUsedEnv) ? lastUsedEnv : undefined;
+      break;
+    case 'skipDangerous': {
+      // Walk on from the current position so the order matches the plain toggle
+      const currentIndex = names.indexOf(currentEnv);
+      const ordered = [...names.slice(currentIndex + 1), ...names.slice(0, currentIndex + 1)];
+      next = ordered.find(name => {
+        const env = environments.find(e => e.displayName === name)!;
+        return resolveDangerLevel(env, totalCount) !== 'production';
+      });
+      break;
+    }
+  }
+
+  return next !== currentEnv ? next : undefined;
+}
@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { writeFileAtomic, withFileLock } from './atomicWrite';
+import { getWindowId } from './activeEnvironment';
+import { getUserHome } from './userHome';
+
+/**
+ * When the current access token was issued and until when the IDP accepts
+ * it, plus the outcome of the last refresh. Shared by all windows so that a
+ * refresh in one window is not repeated by the others; the token itself is
+ * in SecretStorage.
+ */
+export interface TokenState {
+  envName?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  lastSuccessAt?: string;
+  lastError?: { at: string; message: string };
+  // The window that is issuing a token right now
+  refreshClaim?: { windowId: string; at: string };
+}
+
+const DEFAULT_LIFETIME_MINUTES = 60;
+const DEFAULT_REFRESH_MARGIN_MINUTES = 5;
+// Longer than a delivery with all its retries takes; an older claim belongs to a window that went away
+const REFRESH_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+export function getTokenStatePath(): string {
+  const home = getUserHome();
+  return path.join(home, '.cursor', 'mcp-selector', 'token-state.json');
+}
+
+export function readTokenState(): TokenState {
+  try {
+    const statePath = getTokenStatePath();
+    if (!fs.existsSync(statePath)) {
+      return {};
+    }
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+    return state && typeof state === 'object' ? state : {};
+  } catch (error) {
+    console.warn(`[MCP Server Selector] Could not read token state: ${error}`);
+    return {};
+  }
+}
+
+function writeTokenState(state: TokenState): void {
+  writeFileAtomic(getTokenStatePath(), JSON.stringify(state, null, 2), { verifyJson: true });
+}
+
+export function getTokenLifetimeMs(): number {
+  const minutes = vscode.workspace.getConfiguration('mcpServerSelector').get<number>('tokenLifetimeMinutes', DEFAULT_LIFETIME_MINUTES);
+  return Math.max(1, minutes) * 60 * 1000;
+}
+
+export function getTokenRefreshMarginMs(): number {
+  const minutes = vscode.workspace.getConfiguration('mcpServerSelector').get<number>('tokenRefreshMarginMinutes', DEFAULT_REFRESH_MARGIN_MINUTES);
+  return Math.max(0, minutes) * 60 * 1000;
+}
+
+/**
+ * Record a token the IDP accepted and that was written into the MCP config
+ */
+export function recordTokenIssued(envName: string, now: Date = new Date(), lifetimeMs: number = getTokenLifetimeMs()): TokenState {
+  const state: TokenState = {
+    envName,
+    issuedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + lifetimeMs).toISOString(),
+    lastSuccessAt: now.toISOString()
+  };
+  writeTokenState(state);
+  return state;
+}
+
+/**
+ * Record a failed refresh; the previous token's times are kept and this
+ * window's claim is released
+ */
+export function recordTokenError(error: unknown, now: Date = new Date()): TokenState {
+  return withFileLock(getTokenStatePath(), () => {
+    const { refreshClaim, ...previous } = readTokenState();
+    const state: TokenState = {
+      ...previous,
+      refreshClaim: refreshClaim && refreshClaim.windowId !== getWindowId() ? refreshClaim : undefined,
+      lastError: { at: now.toISOString(), message: error instanceof Error ? error.message : String(error) }
+    };
+    writeTokenState(state);
+    return state;
+  });
+}
+
+/**
+ * Claim the next refresh for this window when one is due and no other window
+ * is issuing a token already. Check and claim happen under the state file's
+ * lock, so of several windows whose timers fire together only one refreshes.
+ * recordTokenIssued and recordTokenError release the claim.
+ */
+export function claimTokenRefresh(now: number, marginMs: number): boolean {
+  try {
+    return withFileLock(getTokenStatePath(), () => {
+      const state = readTokenState();
+      const claim = state.refreshClaim;
+      if (claim && claim.windowId !== getWindowId() && now - Date.parse(claim.at) < REFRESH_CLAIM_TIMEOUT_MS) {
+        return false;
+      }
+      if (!isTokenRefreshDue(state, now, marginMs)) {
+        return false;
+      }
+      writeTokenState({ ...state, refreshClaim: { windowId: getWindowId(), at: new Date(now).toISOString() } });
+      return true;
+    });
+  } catch (error) {
+    // The next check tries again
+    console.warn(`[MCP Server Selector] Could not claim the token refresh: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Whether a new token should be issued: there is none yet, or it expires
+ * within the margin (including when it expired while the machine slept)
+ */
+export function isTokenRefreshDue(state: TokenState, now: number, marginMs: number): boolean {
+  const expiresAt = state.expiresAt ? Date.parse(state.expiresAt) : NaN;
+  return isNaN(expiresAt) || expiresAt - marginMs <= now;
+}
+
+/**
+ * Remaining validity for the status bar, e.g. 42m or 1h05m
+ */
+export function formatTokenValidity(ms: number): string {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h${String(minutes).padStart(2, '0')}m` : `${minutes}m`;
+}
@@ -0,0 +1,10 @@
+import * as os from 'os';
+
+/**
+ * The home directory the selector reads and writes its files under.
+ * MCP_SELECTOR_HOME overrides it, which the tests use to work in a
+ * temporary directory.
+ */
+export function getUserHome(): string {
+  return process.env.MCP_SELECTOR_HOME || os.homedir();
+}